@@ -2,7 +2,8 @@
  * Background service worker
  *
  * Manages WebSocket connection to MCP server and routes messages
- * between server and content script.
+ * between server and content script. Requests that need browser-level
+ * APIs (e.g. tab management) are handled here directly.
  */
 
 import type {
@@ -12,21 +13,121 @@ import type {
   ErrorResponse,
   InternalMessage,
   InternalResponse,
-  MessageType,
-  SnapshotParams
+  InteractParams,
+  SnapshotParams,
+  SnapshotResult,
+  TabsParams,
+  TabsResult,
+  TabInfo,
+  TrustedInput,
+  NetworkParams,
+  NetworkResult,
+  ConsoleParams,
+  ConsoleResult,
+  NavigateParams,
+  NavigateResult,
+  NavigationParams,
+  WaitForCondition,
+  WaitForParams,
+  WaitForResult,
+  ScreenshotParams,
+  ScreenshotResult,
+  ElementSelector,
+  EvaluateParams,
+  FillFormParams,
+  DownloadsParams,
+  DownloadsResult,
+  ConfigureParams,
+  DebuggerCapture,
+  DialogInfo,
+  HandleDialogParams,
+  Notification,
+  StateChange
 } from "~lib/protocol";
-import { ErrorCode } from "~lib/protocol";
+import { ErrorCode, MessageType } from "~lib/protocol";
+import { parseFrameRef } from "~lib/frames";
+import { attachDebugger, detachAllDebuggers, onDebuggerAttach } from "~lib/debugger";
+import { dispatchTrustedInput } from "~lib/trusted-input";
+import {
+  startNetworkCapture,
+  getNetworkRequests,
+  clearNetworkRequests,
+  waitForNetworkIdle
+} from "~lib/network-capture";
+import { navigateTab } from "~lib/navigation";
+import { captureTabScreenshot } from "~lib/screenshot";
+import { annotateScreenshot } from "~lib/annotate";
+import { evaluate } from "~lib/evaluate";
+import { startDownloadTracking, getDownloads, waitForDownload, clearDownloads } from "~lib/downloads";
+import {
+  startDialogTracking,
+  setDialogPolicy,
+  onDialogOpened,
+  getOpenDialog,
+  takeHandledDialogs,
+  handleDialog,
+  clearDialogs,
+  describeOpenDialog
+} from "~lib/dialogs";
+import type { Rect } from "~lib/screenshot";
+import {
+  DEFAULT_WAIT_TIMEOUT,
+  POLL_INTERVAL,
+  QUIET_PERIOD,
+  describePageConditions,
+  hasPageConditions
+} from "~lib/wait";
+import {
+  startConsoleCapture,
+  getConsoleLogs,
+  clearConsoleLogs,
+  stopConsoleCapture,
+  onConsoleLog
+} from "~lib/console-capture";
 
 // WebSocket connection
 let ws: WebSocket | null = null;
 let wsUrl = process.env.PLASMO_PUBLIC_WS_URL || "ws://localhost:9222";
 
-// Connected tab ID
+// Connected tab ID (the tab requests are currently sent to)
 let connectedTabId: number | null = null;
 
+// Tabs the agent can reach: the connected tab, tabs it opened and tabs opened by the agent
+const trackedTabIds = new Set<number>();
+
 // Pending requests (waiting for content script response)
 const pendingRequests = new Map<string, (response: Response) => void>();
 
+// Server requests being handled, by ID, with the tab they act on
+const activeRequests = new Map<string, { tabId: number; method: string }>();
+
+// When capture attaches the debugger to a controlled tab
+let debuggerCapture: DebuggerCapture = "always";
+
+// Requests answered early because a dialog blocked their tab; their late responses are dropped
+const interruptedRequests = new Set<string>();
+
+// Methods that do not need the page, so they still work while a dialog blocks it
+const DIALOG_SAFE_METHODS = ["handle_dialog", "console", "network", "downloads"];
+
+// Methods that can open a dialog, which is only detected once the debugger is attached
+const DIALOG_OPENING_METHODS = ["interact", "fill_form", "navigate", "go_back", "go_forward", "reload", "evaluate"];
+
+// Methods that usually change the page when they succeed
+const PAGE_CHANGING_METHODS = [
+  "interact", "fill_form", "scroll", "navigate", "go_back", "go_forward", "reload", "evaluate"
+];
+
+// Methods forwarded to the frame their element refs belong to
+const FRAME_ROUTED_METHODS = ["interact", "scroll", "get_text", "fill_form"];
+
+// Milliseconds state changes are collected for before the server is notified
+const STATE_CHANGE_DELAY = 250;
+
+// State changes waiting to be sent to the server
+const pendingStateChanges = new Set<StateChange>();
+let stateChangeTimer: ReturnType<typeof setTimeout> | null = null;
+
 // Connection state
 let connectionState: "disconnected" | "connecting" | "connected" = "disconnected";
 let connectionStartTime: number | null = null;
@@ -43,6 +144,27 @@ function init(): void {
     return true; // Keep channel open for async response
   });
 
+  // Track popups and target=_blank tabs opened by controlled tabs
+  chrome.tabs.onCreated.addListener(handleTabCreated);
+  chrome.tabs.onRemoved.addListener(handleTabRemoved);
+
+  // Attribute downloads to the controlled tabs that started them
+  startDownloadTracking(() => trackedTabIds);
+
+  // Record network activity, console output and dialogs of controlled tabs whenever the debugger attaches
+  onDebuggerAttach(startCapture);
+
+  // Answer requests blocked by a dialog left open for the agent
+  onDialogOpened(interruptRequests);
+
+  // Tell the server about changes, for its resource subscribers
+  chrome.tabs.onUpdated.addListener(handleTabUpdated);
+  onConsoleLog((tabId) => {
+    if (tabId === connectedTabId) {
+      notifyStateChange("console");
+    }
+  });
+
   console.log("[Background] Initialized");
 }
 
@@ -63,6 +185,18 @@ async function handleMessage(
       sendResponse({ success: true });
     } else if (message.type === "GET_STATE") {
       sendResponse(getState());
+    } else if (message.type === "FRAME_SNAPSHOT") {
+      // Relay a snapshot request from a frame to one of its child frames
+      const response = await chrome.tabs.sendMessage(
+        sender.tab!.id!,
+        { type: MessageType.FRAME_SNAPSHOT, params: { marks: message.marks } },
+        { frameId: message.frameId }
+      );
+      sendResponse(response);
+    } else if (message.type === "TRUSTED_INPUT") {
+      // Trusted input requested by the content script during an interaction
+      await dispatchTrustedInput(sender.tab!.id!, message.input as TrustedInput);
+      sendResponse({ success: true });
     } else if (message.type === "CONTENT_RESPONSE") {
       // Response from content script
       handleContentResponse(message.response);
@@ -93,6 +227,8 @@ async function connect(tabId: number, url?: string): Promise<void> {
 
   connectionState = "connecting";
   connectedTabId = tabId;
+  trackedTabIds.clear();
+  trackTab(tabId);
 
   try {
     ws = new WebSocket(wsUrl);
@@ -121,6 +257,8 @@ async function connect(tabId: number, url?: string): Promise<void> {
       console.log("[Background] WebSocket closed");
       connectionState = "disconnected";
       connectedTabId = null;
+      trackedTabIds.clear();
+      detachAllDebuggers();
       ws = null;
 
       // Notify popup of state change
@@ -132,6 +270,7 @@ async function connect(tabId: number, url?: string): Promise<void> {
   } catch (error) {
     connectionState = "disconnected";
     connectedTabId = null;
+    trackedTabIds.clear();
     ws = null;
     throw error;
   }
@@ -147,24 +286,50 @@ function disconnect(): void {
   }
   connectionState = "disconnected";
   connectedTabId = null;
+  trackedTabIds.clear();
+  detachAllDebuggers();
   broadcastState();
 }
 
 /**
- * Capture screenshot of the current tab
+ * Capture screenshot of the current tab's viewport
+ *
+ * Falls back to capturing the visible tab if the debugger cannot be used
+ * (e.g. DevTools is open on the tab).
  */
 async function captureScreenshot(tabId: number): Promise<string | null> {
   try {
-    const dataUrl = await chrome.tabs.captureVisibleTab(undefined, {
-      format: "png"
-    });
-    return dataUrl;
+    return (await captureTabScreenshot(tabId)).dataUrl;
+  } catch (error) {
+    console.warn("[Background] Debugger screenshot failed, capturing visible tab:", error);
+  }
+
+  try {
+    const tab = await chrome.tabs.get(tabId);
+    return await chrome.tabs.captureVisibleTab(tab.windowId, { format: "png" });
   } catch (error) {
     console.error("[Background] Failed to capture screenshot:", error);
     return null;
   }
 }
 
+/**
+ * Draw the refs of interactive elements onto a snapshot screenshot
+ *
+ * Falls back to the plain screenshot if it cannot be annotated.
+ */
+async function annotateSnapshotScreenshot(
+  screenshot: string,
+  marks: NonNullable<SnapshotResult["marks"]>
+): Promise<string> {
+  try {
+    return await annotateScreenshot(screenshot, marks.elements, marks.devicePixelRatio);
+  } catch (error) {
+    console.error("[Background] Failed to annotate screenshot:", error);
+    return screenshot;
+  }
+}
+
 /**
  * Handle incoming message from server
  */
@@ -173,54 +338,170 @@ async function handleServerMessage(data: string): Promise<void> {
     const request: Request = JSON.parse(data);
     console.log("[Background] Received request:", request);
 
+    // Requests handled by the background worker itself
+    if (request.method === "tabs") {
+      await handleBackgroundRequest(request, () => handleTabs(request.params as TabsParams));
+      return;
+    }
+
+    if (request.method === "configure") {
+      await handleBackgroundRequest(request, async () => {
+        const params = request.params as ConfigureParams;
+        setDialogPolicy(params.dialogPolicy ?? "ask");
+        debuggerCapture = params.debuggerCapture ?? "always";
+        if (debuggerCapture === "always") {
+          for (const trackedTabId of trackedTabIds) {
+            ensureCapture(trackedTabId);
+          }
+        }
+        return {};
+      });
+      return;
+    }
+
     // Check if we have a connected tab
     if (!connectedTabId) {
       sendErrorResponse(request.id, ErrorCode.NO_TAB, "No tab connected");
       return;
     }
+    const tabId = connectedTabId;
+
+    // While a dialog is open, the page cannot answer
+    if (!DIALOG_SAFE_METHODS.includes(request.method)) {
+      const dialog = getOpenDialog(tabId);
+      if (dialog) {
+        sendErrorResponse(request.id, ErrorCode.DIALOG_OPEN, describeOpenDialog(dialog));
+        return;
+      }
+      activeRequests.set(request.id, { tabId, method: request.method });
+    }
+
+    // Whatever DEBUGGER_CAPTURE says, a dialog the request opens must not go unnoticed and block it until it times out
+    if (DIALOG_OPENING_METHODS.includes(request.method)) {
+      await ensureCapture(tabId);
+    }
+
+    if (request.method === "handle_dialog") {
+      await handleBackgroundRequest(request, async () => {
+        const result = await handleDialog(tabId, request.params as HandleDialogParams);
+        // Handling a dialog often changes the page (e.g. a confirmed delete or leaving it), and
+        // handle_dialog is not among the active requests whose responses report that
+        notifyStateChange("page");
+        return result;
+      });
+      return;
+    }
+
+    if (request.method === "network") {
+      await handleBackgroundRequest(request, async (): Promise<NetworkResult> => {
+        await ensureCapture(tabId);
+        return { requests: await getNetworkRequests(tabId, request.params as NetworkParams) };
+      });
+      return;
+    }
+
+    if (request.method === "console") {
+      await handleBackgroundRequest(request, async (): Promise<ConsoleResult> => {
+        await ensureCapture(tabId);
+        const params = request.params as ConsoleParams;
+        const result = getConsoleLogs(tabId, params);
+        if (params.clear) {
+          clearConsoleLogs(tabId, result.cursor);
+        }
+        return result;
+      });
+      return;
+    }
+
+    if (request.method === "wait_for") {
+      await handleBackgroundRequest(request, () => handleWaitFor(tabId, request.params as WaitForParams));
+      return;
+    }
+
+    if (request.method === "evaluate") {
+      await handleBackgroundRequest(request, () => evaluate(tabId, request.params as EvaluateParams));
+      return;
+    }
+
+    if (request.method === "downloads") {
+      await handleBackgroundRequest(request, () => handleDownloads(tabId, request.params as DownloadsParams));
+      return;
+    }
+
+    if (request.method === "screenshot") {
+      await handleBackgroundRequest(request, () => handleScreenshot(tabId, request.params as ScreenshotParams));
+      return;
+    }
+
+    if (["navigate", "go_back", "go_forward", "reload"].includes(request.method)) {
+      await handleBackgroundRequest(request, () => handleNavigation(tabId, request));
+      return;
+    }
+
+    // Interactions with elements inside iframes go to that frame's content script
+    let frameTarget: ReturnType<typeof getFrameTarget>;
+    try {
+      frameTarget = getFrameTarget(request);
+    } catch (error) {
+      sendResponse(toErrorResponse(request.id, error));
+      return;
+    }
+    const waitFor = (request.params as InteractParams | undefined)?.waitFor;
+
+    // The snapshot after a frame interaction covers the whole page, and the snapshot
+    // after a wait must show the page once the wait is over, so both are taken separately
+    const separateSnapshot = ["interact", "scroll", "fill_form"].includes(request.method) &&
+      (request.params as InteractParams).snapshot === true &&
+      (frameTarget !== null || waitFor !== undefined);
 
     // Forward to content script
     const internalMessage: InternalMessage = {
       type: request.method.toUpperCase() as MessageType,
       requestId: request.id,
-      params: request.params
+      params: {
+        ...(frameTarget ? frameTarget.params : request.params),
+        ...(separateSnapshot ? { snapshot: false } : {})
+      }
     };
 
-    // Store pending request
-    const responsePromise = new Promise<Response>((resolve) => {
-      pendingRequests.set(request.id, resolve);
-    });
-
-    // Send to content script
-    chrome.tabs.sendMessage(connectedTabId, internalMessage);
-
-    // Wait for response with timeout
-    const timeoutPromise = new Promise<Response>((resolve) => {
-      setTimeout(() => {
-        resolve({
-          id: request.id,
-          error: {
-            code: ErrorCode.TIMEOUT,
-            message: "Request timed out"
-          }
-        });
-      }, 30000); // 30 second timeout
-    });
+    const response = await forwardToContent(tabId, internalMessage, frameTarget?.frameId);
 
-    const response = await Promise.race([responsePromise, timeoutPromise]);
+    if (waitFor && "result" in response) {
+      try {
+        await waitForConditions(tabId, waitFor);
+      } catch (error) {
+        sendResponse(toErrorResponse(request.id, error));
+        return;
+      }
+    }
 
-    // Clean up pending request
-    pendingRequests.delete(request.id);
+    if (separateSnapshot && "result" in response) {
+      const snapshotResponse = await forwardToContent(tabId, {
+        type: MessageType.SNAPSHOT,
+        requestId: `${request.id}:snapshot`,
+        params: { diff: (request.params as InteractParams).diff }
+      });
+      if ("result" in snapshotResponse) {
+        const { url, title, aria, diff } = snapshotResponse.result as SnapshotResult;
+        Object.assign(response.result, { url, title, aria, diff });
+      }
+    }
 
     // For snapshot requests, capture screenshot if enabled (default: true)
     if (request.method === "snapshot" && "result" in response) {
       const params = (request.params || {}) as SnapshotParams;
       const shouldScreenshot = params.screenshot !== false; // Default true
+      const result = response.result as SnapshotResult;
+      const marks = result.marks;
+      delete result.marks;
 
       if (shouldScreenshot && connectedTabId) {
-        const screenshot = await captureScreenshot(connectedTabId);
-        if (screenshot && response.result) {
-          (response.result as any).screenshot = screenshot;
+        let screenshot = await captureScreenshot(connectedTabId);
+        if (screenshot && marks) {
+          screenshot = await annotateSnapshotScreenshot(screenshot, marks);
+        }
+        if (screenshot) {
+          result.screenshot = screenshot;
         }
       }
     }
@@ -232,6 +513,625 @@ async function handleServerMessage(data: string): Promise<void> {
   }
 }
 
+/**
+ * Send a message to the content script in one frame of a tab and wait for its response
+ *
+ * The content script answers with a CONTENT_RESPONSE message, which resolves
+ * the pending request registered here.
+ */
+async function forwardToContent(
+  tabId: number,
+  message: InternalMessage,
+  frameId: number = 0
+): Promise<Response> {
+  // Store pending request
+  const responsePromise = new Promise<Response>((resolve) => {
+    pendingRequests.set(message.requestId, resolve);
+  });
+
+  // Send to content script
+  chrome.tabs.sendMessage(tabId, message, { frameId }).catch((error) => {
+    // A frame that went away since the snapshot cannot be reached any more
+    if (frameId !== 0) {
+      pendingRequests.get(message.requestId)?.({
+        id: message.requestId,
+        error: {
+          code: ErrorCode.STALE_REF,
+          message: `Frame ${frameId} no longer exists. Take a new snapshot to get current refs.`
+        }
+      });
+    } else {
+      console.error("[Background] Failed to reach content script:", error);
+    }
+  });
+
+  // Wait for response with timeout
+  const timeoutPromise = new Promise<Response>((resolve) => {
+    setTimeout(() => {
+      resolve({
+        id: message.requestId,
+        error: {
+          code: ErrorCode.TIMEOUT,
+          message: "Request timed out"
+        }
+      });
+    }, 30000); // 30 second timeout
+  });
+
+  const response = await Promise.race([responsePromise, timeoutPromise]);
+
+  // Clean up pending request
+  pendingRequests.delete(message.requestId);
+
+  return response;
+}
+
+/**
+ * Find the frame a request targets from the frame-qualified refs in its element selectors
+ *
+ * Covers the element and target of interact and scroll, the element of
+ * get_text and the fields of fill_form, which must all be in the same frame.
+ *
+ * @returns The frame ID and params with the refs made frame-local, or null for the top frame
+ * @throws INVALID_REQUEST if the selectors are in different frames
+ */
+function getFrameTarget(request: Request): { frameId: number; params: Record<string, any> } | null {
+  if (!FRAME_ROUTED_METHODS.includes(request.method)) {
+    return null;
+  }
+
+  // CSS and role selectors only match elements of the top frame
+  const frameIds = new Set<number>();
+  const params = mapSelectors(request, (selector) => {
+    const frameRef = "ref" in selector ? parseFrameRef(selector.ref) : null;
+    frameIds.add(frameRef?.frameId ?? 0);
+    return frameRef ? { ref: frameRef.ref } : selector;
+  });
+
+  if (frameIds.size > 1) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: request.method === "fill_form"
+        ? "All fields of fill_form must be in the same frame; fill each frame's fields separately"
+        : `The elements of one ${request.method} request must be in the same frame`
+    }));
+  }
+
+  const [frameId] = frameIds;
+  if (!frameId) {
+    return null;
+  }
+  // The refs of the links get_text returns must lead back to this frame
+  if (request.method === "get_text") {
+    params.frameId = frameId;
+  }
+  return { frameId, params };
+}
+
+/**
+ * Copy a request's params with each of its element selectors replaced
+ */
+function mapSelectors(request: Request, map: (selector: ElementSelector) => ElementSelector): Record<string, any> {
+  const params: Record<string, any> = { ...request.params };
+
+  for (const key of ["element", "target"]) {
+    if (params[key]) {
+      params[key] = map(params[key]);
+    }
+  }
+  if (request.method === "fill_form") {
+    params.fields = (params as FillFormParams).fields.map((field) => ({ ...field, element: map(field.element) }));
+  }
+
+  return params;
+}
+
+/**
+ * Run a request handled by the background worker and send its result or error.
+ *
+ * Handlers signal protocol errors by throwing an Error whose message is a
+ * JSON-encoded `{ code, message }`, like the content script does.
+ */
+async function handleBackgroundRequest(request: Request, handler: () => Promise<any>): Promise<void> {
+  try {
+    const result = await handler();
+    sendResponse({ id: request.id, result });
+  } catch (error) {
+    console.error("[Background] Error handling request:", error);
+    sendResponse(toErrorResponse(request.id, error));
+  }
+}
+
+/**
+ * Convert an error thrown by a handler into an error response
+ */
+function toErrorResponse(id: string, error: unknown): ErrorResponse {
+  let errorCode = ErrorCode.INTERNAL_ERROR;
+  let errorMessage = error instanceof Error ? error.message : String(error);
+
+  try {
+    const parsedError = JSON.parse(errorMessage);
+    if (parsedError.code && parsedError.message) {
+      errorCode = parsedError.code;
+      errorMessage = parsedError.message;
+    }
+  } catch {
+    // Not a JSON error, use as-is
+  }
+
+  return { id, error: { code: errorCode, message: errorMessage } };
+}
+
+/**
+ * Handle navigate, go_back, go_forward and reload requests
+ *
+ * Navigation is driven from here rather than from the page, whose content
+ * script is destroyed by the navigation it would start.
+ */
+async function handleNavigation(tabId: number, request: Request): Promise<NavigateResult> {
+  const params = (request.params || {}) as NavigationParams;
+
+  // Requests are only counted once the debugger is attached, so attach before the navigation starts
+  if (params.waitUntil === "networkidle") {
+    await ensureCapture(tabId);
+  }
+
+  switch (request.method) {
+    case "navigate": {
+      const { url } = request.params as NavigateParams;
+      await navigateTab(tabId, () => chrome.tabs.update(tabId, { url }), `navigation to ${url}`, params);
+      break;
+    }
+    case "go_back":
+      await navigateTab(tabId, () => chrome.tabs.goBack(tabId), "going back", params);
+      break;
+    case "go_forward":
+      await navigateTab(tabId, () => chrome.tabs.goForward(tabId), "going forward", params);
+      break;
+    case "reload":
+      await navigateTab(tabId, () => chrome.tabs.reload(tabId), "reload", params);
+      break;
+  }
+
+  if (params.waitFor) {
+    await waitForConditions(tabId, params.waitFor);
+  }
+
+  const tab = await chrome.tabs.get(tabId);
+  return {
+    url: tab.url || "",
+    title: tab.title || ""
+  };
+}
+
+/**
+ * Handle screenshot request: capture the viewport, the full page or one element
+ */
+async function handleScreenshot(tabId: number, params: ScreenshotParams): Promise<ScreenshotResult> {
+  if (params.fullPage && params.element) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "fullPage and element cannot be combined"
+    }));
+  }
+
+  const clip = params.element ? await getElementBounds(tabId, params.element) : undefined;
+  if (clip && (clip.width === 0 || clip.height === 0)) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "Element has no size and cannot be captured"
+    }));
+  }
+
+  const screenshot = await captureTabScreenshot(tabId, {
+    fullPage: params.fullPage,
+    clip,
+    format: params.format,
+    quality: params.quality,
+    maxWidth: params.maxWidth,
+    maxHeight: params.maxHeight
+  });
+
+  return {
+    screenshot: screenshot.dataUrl,
+    width: screenshot.width,
+    height: screenshot.height
+  };
+}
+
+/**
+ * Get an element's bounding box in viewport coordinates from the frame that contains it
+ */
+async function getElementBounds(tabId: number, element: ElementSelector): Promise<Rect> {
+  const frameRef = "ref" in element ? parseFrameRef(element.ref) : null;
+
+  const response = await chrome.tabs.sendMessage(
+    tabId,
+    { type: MessageType.ELEMENT_BOUNDS, params: { element: frameRef ? { ref: frameRef.ref } : element } },
+    { frameId: frameRef?.frameId ?? 0 }
+  );
+  if (response?.error) {
+    throw new Error(response.error);
+  }
+  return response.rect;
+}
+
+/**
+ * Handle wait_for request: wait for the conditions, then report where the page is
+ */
+async function handleWaitFor(tabId: number, params: WaitForParams): Promise<WaitForResult> {
+  if (!hasPageConditions(params) && params.url === undefined && !params.networkIdle) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "wait_for requires at least one of element, text, url, domStable or networkIdle"
+    }));
+  }
+
+  const start = Date.now();
+  await waitForConditions(tabId, params);
+
+  const tab = await chrome.tabs.get(tabId);
+  return {
+    url: tab.url || "",
+    title: tab.title || "",
+    elapsed: Date.now() - start
+  };
+}
+
+/**
+ * Wait for all conditions to be met, checking them concurrently
+ *
+ * @throws TIMEOUT error listing the conditions still pending when time ran out
+ */
+async function waitForConditions(tabId: number, condition: WaitForCondition): Promise<void> {
+  const timeout = condition.timeout ?? DEFAULT_WAIT_TIMEOUT;
+  const deadline = Date.now() + timeout;
+
+  const results = await Promise.all([
+    condition.url !== undefined ? waitForTabUrl(tabId, condition.url, deadline) : [],
+    hasPageConditions(condition) ? waitForPageConditions(tabId, condition, deadline) : [],
+    condition.networkIdle ? waitForNetworkIdleCondition(tabId, deadline) : []
+  ]);
+
+  const pending = results.flat();
+  if (pending.length > 0) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.TIMEOUT,
+      message: `Timed out after ${timeout}ms waiting for ${pending.join("; ")}`
+    }));
+  }
+}
+
+/**
+ * Wait for the tab's URL to match a pattern (covers both page loads and history changes)
+ *
+ * @returns A description of the condition if it was not met in time, or an empty list
+ */
+async function waitForTabUrl(tabId: number, pattern: string, deadline: number): Promise<string[]> {
+  let urlPattern: RegExp;
+  try {
+    urlPattern = new RegExp(pattern);
+  } catch {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: `Invalid URL pattern: ${pattern}`
+    }));
+  }
+
+  while (true) {
+    const tab = await chrome.tabs.get(tabId);
+    const url = tab.pendingUrl || tab.url || "";
+    if (urlPattern.test(url)) {
+      return [];
+    }
+    if (Date.now() >= deadline) {
+      return [`URL to match /${pattern}/ (currently ${url})`];
+    }
+    await sleep(POLL_INTERVAL);
+  }
+}
+
+/**
+ * Wait for the element, text and DOM conditions in the tab's top frame
+ *
+ * The content script does the waiting. If the page navigates away while it
+ * waits, or is still loading, the wait is resent to the new page.
+ *
+ * @returns Descriptions of the conditions not met in time, or an empty list
+ */
+async function waitForPageConditions(tabId: number, condition: WaitForCondition, deadline: number): Promise<string[]> {
+  while (true) {
+    try {
+      const response = await chrome.tabs.sendMessage(
+        tabId,
+        { type: MessageType.WAIT_FOR, params: { ...condition, timeout: Math.max(0, deadline - Date.now()) } },
+        { frameId: 0 }
+      );
+      if (response?.error) {
+        throw new Error(response.error);
+      }
+      if (response?.pending) {
+        return response.pending;
+      }
+    } catch (error) {
+      // Errors reported by the content script are final; failing to reach it is not
+      if (error instanceof Error && !/receiving end|closed before a response/i.test(error.message)) {
+        throw error;
+      }
+    }
+
+    if (Date.now() >= deadline) {
+      return describePageConditions(condition);
+    }
+    await sleep(POLL_INTERVAL);
+  }
+}
+
+/**
+ * Wait for the tab's network activity to stop
+ *
+ * @returns A description of the condition if it was not met in time, or an empty list
+ */
+async function waitForNetworkIdleCondition(tabId: number, deadline: number): Promise<string[]> {
+  await ensureCapture(tabId);
+  const inFlight = await waitForNetworkIdle(tabId, deadline, QUIET_PERIOD);
+  if (inFlight.length === 0) {
+    return [];
+  }
+  const count = inFlight.length === 1 ? "1 request" : `${inFlight.length} requests`;
+  return [`network idle (${count} in flight: ${inFlight.slice(0, 5).join(", ")})`];
+}
+
+/**
+ * Pause between checks
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Handle tabs request: list, open, switch to or close tracked tabs
+ */
+async function handleTabs(params: TabsParams): Promise<TabsResult> {
+  switch (params.action) {
+    case "list":
+      break;
+
+    case "open": {
+      const tab = await chrome.tabs.create({ url: params.url || "about:blank" });
+      if (tab.id === undefined) {
+        throw new Error("Failed to open tab");
+      }
+      trackTab(tab.id);
+      await waitForTabComplete(tab.id);
+      setTargetTab(tab.id);
+      break;
+    }
+
+    case "switch": {
+      const tabId = requireTrackedTab(params.tabId);
+      const tab = await chrome.tabs.update(tabId, { active: true });
+      if (tab?.windowId !== undefined) {
+        await chrome.windows.update(tab.windowId, { focused: true });
+      }
+      setTargetTab(tabId);
+      break;
+    }
+
+    case "close": {
+      const tabId = requireTrackedTab(params.tabId ?? connectedTabId ?? undefined);
+      await chrome.tabs.remove(tabId);
+      // handleTabRemoved picks a new target if the connected tab was closed
+      handleTabRemoved(tabId);
+      break;
+    }
+
+    default: {
+      const action: never = params.action;
+      throw new Error(JSON.stringify({
+        code: ErrorCode.INVALID_REQUEST,
+        message: `Unknown tabs action: ${action}`
+      }));
+    }
+  }
+
+  return {
+    targetTabId: connectedTabId,
+    tabs: await getTrackedTabs()
+  };
+}
+
+/**
+ * Handle downloads request: list the tab's downloads or wait for one to finish
+ */
+async function handleDownloads(tabId: number, params: DownloadsParams): Promise<DownloadsResult> {
+  switch (params.action) {
+    case "list":
+      return { downloads: await getDownloads(tabId) };
+
+    case "wait":
+      return { downloads: [await waitForDownload(tabId, params)] };
+
+    default: {
+      const action: never = params.action;
+      throw new Error(JSON.stringify({
+        code: ErrorCode.INVALID_REQUEST,
+        message: `Unknown downloads action: ${action}`
+      }));
+    }
+  }
+}
+
+/**
+ * Ensure a tab ID refers to a tab the agent is allowed to control
+ */
+function requireTrackedTab(tabId: number | undefined): number {
+  if (tabId === undefined || !trackedTabIds.has(tabId)) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.NO_TAB,
+      message: `Tab ${tabId} is not one of the controlled tabs. Use the tabs tool with action "list" to see available tabs.`
+    }));
+  }
+  return tabId;
+}
+
+/**
+ * Make a tab the target of subsequent requests
+ */
+function setTargetTab(tabId: number): void {
+  connectedTabId = tabId;
+  broadcastState();
+  notifyStateChange("tabs");
+  notifyStateChange("page");
+}
+
+/**
+ * Get info for all tracked tabs that still exist
+ */
+async function getTrackedTabs(): Promise<TabInfo[]> {
+  const tabs: TabInfo[] = [];
+  for (const tabId of trackedTabIds) {
+    try {
+      const tab = await chrome.tabs.get(tabId);
+      tabs.push({
+        id: tabId,
+        url: tab.url || "",
+        title: tab.title || "",
+        target: tabId === connectedTabId,
+        openerTabId: tab.openerTabId
+      });
+    } catch {
+      // Tab no longer exists
+      trackedTabIds.delete(tabId);
+    }
+  }
+  return tabs;
+}
+
+/**
+ * Start tracking tabs opened by a controlled tab (popups, target=_blank links)
+ */
+function handleTabCreated(tab: chrome.tabs.Tab): void {
+  if (tab.id === undefined || tab.openerTabId === undefined) {
+    return;
+  }
+  if (trackedTabIds.has(tab.openerTabId)) {
+    console.log("[Background] Tracking tab", tab.id, "opened by", tab.openerTabId);
+    trackTab(tab.id);
+  }
+}
+
+/**
+ * Report loads, URL and title changes of controlled tabs
+ */
+function handleTabUpdated(tabId: number, changeInfo: chrome.tabs.TabChangeInfo): void {
+  if (!trackedTabIds.has(tabId) || !(changeInfo.url || changeInfo.title || changeInfo.status === "complete")) {
+    return;
+  }
+  notifyStateChange("tabs");
+  if (tabId === connectedTabId) {
+    notifyStateChange("page");
+  }
+}
+
+/**
+ * Start controlling a tab, and recording its network activity and console output if configured to from the start
+ */
+function trackTab(tabId: number): void {
+  trackedTabIds.add(tabId);
+  notifyStateChange("tabs");
+  if (debuggerCapture === "always") {
+    ensureCapture(tabId);
+  }
+}
+
+/**
+ * Attach the debugger to a tab, if it is not attached yet, so its network activity, console output and dialogs are recorded
+ *
+ * Failing to attach (e.g. DevTools is open on the tab) is logged; requests
+ * go on with what was recorded so far.
+ */
+async function ensureCapture(tabId: number): Promise<void> {
+  try {
+    await attachDebugger(tabId);
+  } catch (error) {
+    console.error("[Background] Failed to attach debugger:", error);
+  }
+}
+
+/**
+ * Enable network capture, console capture and dialog tracking in a newly attached debugger session
+ *
+ * Runs again after each re-attach (the user cancelled the debugging infobar,
+ * the tab crashed), so capture resumes instead of stopping silently.
+ */
+async function startCapture(tabId: number): Promise<void> {
+  if (!trackedTabIds.has(tabId)) {
+    return;
+  }
+  await Promise.all([
+    startNetworkCapture(tabId).catch((error) => {
+      console.error("[Background] Failed to start network capture:", error);
+    }),
+    startConsoleCapture(tabId).catch((error) => {
+      console.error("[Background] Failed to start console capture:", error);
+    }),
+    startDialogTracking(tabId).catch((error) => {
+      console.error("[Background] Failed to start dialog tracking:", error);
+    })
+  ]);
+}
+
+/**
+ * Stop tracking closed tabs, retargeting if the connected tab was closed
+ */
+function handleTabRemoved(tabId: number): void {
+  if (!trackedTabIds.delete(tabId)) {
+    return;
+  }
+  clearNetworkRequests(tabId);
+  stopConsoleCapture(tabId);
+  clearDownloads(tabId);
+  clearDialogs(tabId);
+  notifyStateChange("tabs");
+  if (tabId === connectedTabId) {
+    const [nextTabId] = trackedTabIds;
+    connectedTabId = nextTabId ?? null;
+    broadcastState();
+    notifyStateChange("page");
+  }
+}
+
+/**
+ * Wait for a tab to finish loading so its content script can receive requests
+ */
+function waitForTabComplete(tabId: number, timeoutMs: number = 30000): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(done, timeoutMs);
+
+    function listener(updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo): void {
+      if (updatedTabId === tabId && changeInfo.status === "complete") {
+        done();
+      }
+    }
+
+    function done(): void {
+      clearTimeout(timeout);
+      chrome.tabs.onUpdated.removeListener(listener);
+      resolve();
+    }
+
+    chrome.tabs.onUpdated.addListener(listener);
+
+    // The tab may have finished loading before the listener was added
+    chrome.tabs.get(tabId).then((tab) => {
+      if (tab.status === "complete") {
+        done();
+      }
+    }).catch(done);
+  });
+}
+
 /**
  * Handle response from content script
  */
@@ -260,6 +1160,25 @@ function handleContentResponse(response: InternalResponse): void {
  * Send response to server
  */
 function sendResponse(response: Response): void {
+  const active = activeRequests.get(response.id);
+  activeRequests.delete(response.id);
+  if (interruptedRequests.delete(response.id)) {
+    console.log("[Background] Dropped response of interrupted request:", response.id);
+    return;
+  }
+
+  // Report the dialogs the policy handled in the tab since its previous response
+  if (active && "result" in response && response.result && typeof response.result === "object") {
+    const dialogs = takeHandledDialogs(active.tabId);
+    if (dialogs.length > 0) {
+      response.result.dialogs = dialogs;
+    }
+  }
+
+  if (active && "result" in response && PAGE_CHANGING_METHODS.includes(active.method)) {
+    notifyStateChange("page");
+  }
+
   if (!ws || ws.readyState !== WebSocket.OPEN) {
     console.error("[Background] Cannot send response: WebSocket not connected");
     return;
@@ -270,6 +1189,43 @@ function sendResponse(response: Response): void {
   console.log("[Background] Sent response:", response);
 }
 
+/**
+ * Answer the requests a dialog blocks with a DIALOG_OPEN error describing it
+ */
+function interruptRequests(tabId: number, dialog: DialogInfo): void {
+  for (const [id, active] of activeRequests) {
+    if (active.tabId === tabId) {
+      sendErrorResponse(id, ErrorCode.DIALOG_OPEN, describeOpenDialog(dialog));
+      interruptedRequests.add(id);
+    }
+  }
+}
+
+/**
+ * Tell the server that part of the browser state changed
+ *
+ * Changes are collected for a moment and sent together, since one
+ * interaction or page load usually changes the page several times.
+ */
+function notifyStateChange(change: StateChange): void {
+  if (!ws || ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+
+  pendingStateChanges.add(change);
+  stateChangeTimer ??= setTimeout(() => {
+    stateChangeTimer = null;
+    const notification: Notification = {
+      method: "state_changed",
+      params: { changes: Array.from(pendingStateChanges) }
+    };
+    pendingStateChanges.clear();
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(notification));
+    }
+  }, STATE_CHANGE_DELAY);
+}
+
 /**
  * Send error response to server
  */
@@ -1,40 +1,63 @@
 /**
  * Content script
  *
- * Executes in the context of web pages and handles:
- * - ARIA snapshot generation
- * - DOM interactions (click, type, etc.)
- * - Console log capture
+ * Executes in the context of web pages (every frame) and handles:
+ * - ARIA snapshot generation, including child frames
+ * - DOM interactions (click, type, etc.) and form filling
+ * - Scrolling
+ * - Page text as Markdown
+ * - Waiting for elements, text and DOM changes
  */
 
 import type { PlasmoCSConfig } from "plasmo";
 import {
   generateAriaSnapshot
 } from "~lib/aria-snapshot";
+import { includeChildFrames } from "~lib/frames";
+import { collectMarks } from "~lib/marks";
+import { waitForPage } from "~lib/wait";
+import { scroll } from "~lib/scroll";
+import { getText } from "~lib/markdown";
+import { fillForm } from "~lib/forms";
+import { fetchDownloadContent } from "~lib/download-content";
+import { encodeAriaSnapshot, encodeAriaSnapshotDiff } from "~lib/toon";
+import {
+  diffSnapshots,
+  getDiffBaseline,
+  rememberSnapshot
+} from "~lib/snapshot-diff";
 import {
   click,
   type as typeText,
   hover,
   select,
-  press
+  press,
+  upload,
+  drag,
+  findElement,
+  getViewportRect
 } from "~lib/interactions";
-import {
-  initConsoleCapture,
-  getConsoleLogs
-} from "~lib/console-capture";
 import type {
+  AriaSnapshot,
   InternalMessage,
   InternalResponse,
   MessageType,
   InteractParams,
-  NavigateParams
+  InteractResult,
+  SnapshotParams,
+  SnapshotResult,
+  ScrollParams,
+  ScrollResult,
+  FillFormParams,
+  FillFormResult,
+  WaitForParams
 } from "~lib/protocol";
 import { ErrorCode } from "~lib/protocol";
 
 // Plasmo content script configuration
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"],
-  all_frames: false,
+  all_frames: true,
   run_at: "document_end"
 };
 
@@ -42,9 +65,6 @@ export const config: PlasmoCSConfig = {
  * Initialize content script
  */
 function init(): void {
-  // Initialize console capture
-  initConsoleCapture();
-
   // Listen for messages from background script
   chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     handleMessage(message, sender, sendResponse);
@@ -64,24 +84,73 @@ async function handleMessage(
 ): Promise<void> {
   console.log("[Content] Received message:", message);
 
+  // Snapshot requested by a parent frame: answer directly, it is not a server request
+  if (message.type === "FRAME_SNAPSHOT") {
+    const snapshot = await generateSnapshot(message.params?.marks === true);
+    sendResponse({ snapshot });
+    return;
+  }
+
+  // Element position requested by the background worker, e.g. to clip a screenshot
+  if (message.type === "ELEMENT_BOUNDS") {
+    try {
+      const rect = getViewportRect(findElement(message.params.element));
+      if (!rect) {
+        throw new Error(JSON.stringify({
+          code: ErrorCode.INVALID_REQUEST,
+          message: "Cannot locate elements inside cross-origin frames on the page"
+        }));
+      }
+      sendResponse({ rect });
+    } catch (error) {
+      sendResponse({ error: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  // Wait requested by the background worker, which resends it if the page navigates away meanwhile
+  if (message.type === "WAIT_FOR") {
+    try {
+      const params = message.params as WaitForParams;
+      sendResponse({ pending: await waitForPage(params, params.timeout ?? 0) });
+    } catch (error) {
+      sendResponse({ error: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  // Download fetched again with the page's origin and cookies, e.g. a blob: URL only the page can read
+  if (message.type === "DOWNLOAD_CONTENT") {
+    try {
+      sendResponse({ data: await fetchDownloadContent(message.params.url, message.params.maxBytes) });
+    } catch (error) {
+      sendResponse({ error: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
   try {
     let result: any;
 
     switch (message.type) {
       case "SNAPSHOT":
-        result = await handleSnapshot();
-        break;
-
-      case "NAVIGATE":
-        result = await handleNavigate(message.params);
+        result = await handleSnapshot(message.params);
         break;
 
       case "INTERACT":
         result = await handleInteract(message.params);
         break;
 
-      case "CONSOLE":
-        result = await handleConsole();
+      case "SCROLL":
+        result = await handleScroll(message.params);
+        break;
+
+      case "GET_TEXT":
+        result = getText(message.params);
+        break;
+
+      case "FILL_FORM":
+        result = await handleFillForm(message.params);
         break;
 
       default:
@@ -140,44 +209,59 @@ async function handleMessage(
 /**
  * Handle snapshot request
  */
-async function handleSnapshot(): Promise<any> {
+async function handleSnapshot(params: SnapshotParams = {}): Promise<SnapshotResult> {
+  return takeSnapshot(params.diff === true, params.marks === true, params.remember !== false);
+}
+
+/**
+ * Generate the ARIA snapshot of this frame and its child frames, with the
+ * marks of their interactive elements if requested
+ */
+async function generateSnapshot(marks: boolean): Promise<AriaSnapshot> {
   const snapshot = generateAriaSnapshot();
-  console.log("[Content] Generated snapshot with", snapshot.elements.length, "elements");
-  return snapshot;
+  if (marks) {
+    snapshot.marks = collectMarks(snapshot);
+  }
+  return includeChildFrames(snapshot);
 }
 
 /**
- * Handle navigate request
+ * Generate an ARIA snapshot of the page and its frames and encode it for the server.
+ *
+ * When a diff is requested and a previous snapshot of the same page exists,
+ * only the changes are encoded; otherwise (first snapshot, or the URL
+ * changed) a full snapshot is returned and `diff` is false. With marks, the
+ * boxes of the interactive elements in view are included for the screenshot.
+ * Unless `remember` is false, the snapshot becomes the baseline of the next diff.
  */
-async function handleNavigate(params: NavigateParams): Promise<any> {
-  const { url } = params;
-
-  // Navigate to URL
-  window.location.href = url;
-
-  // Wait for navigation to complete
-  await new Promise((resolve) => {
-    const checkReady = () => {
-      if (document.readyState === "complete") {
-        resolve(true);
-      } else {
-        setTimeout(checkReady, 100);
-      }
-    };
-    checkReady();
-  });
+async function takeSnapshot(diff: boolean, marks: boolean = false, remember: boolean = true): Promise<SnapshotResult> {
+  const snapshot = await generateSnapshot(marks);
+  console.log("[Content] Generated snapshot with", snapshot.elements.length, "elements");
+
+  const baseline = diff ? getDiffBaseline(snapshot.url) : null;
+  if (remember) {
+    rememberSnapshot(snapshot);
+  }
 
-  return {
-    url: window.location.href,
-    title: document.title
+  const result: SnapshotResult = {
+    url: snapshot.url,
+    title: snapshot.title,
+    aria: baseline ? encodeAriaSnapshotDiff(diffSnapshots(baseline, snapshot)) : encodeAriaSnapshot(snapshot),
+    diff: baseline !== null
   };
+
+  if (snapshot.marks) {
+    result.marks = { devicePixelRatio: window.devicePixelRatio, elements: snapshot.marks };
+  }
+  return result;
 }
 
 /**
  * Handle interact request
  */
-async function handleInteract(params: InteractParams): Promise<any> {
-  const { action, element, text, key, value, snapshot: includeSnapshot } = params;
+async function handleInteract(params: InteractParams): Promise<InteractResult> {
+  const { action, element, text, mode, delay, key, repeat, value, files, target, offset, snapshot: includeSnapshot, diff, input } = params;
+  const options = { input };
 
   // Perform the interaction
   switch (action) {
@@ -185,21 +269,21 @@ async function handleInteract(params: InteractParams): Promise<any> {
       if (!element) {
         throw new Error("Element selector required for click action");
       }
-      await click(element);
+      await click(element, options);
       break;
 
     case "type":
-      if (!element || !text) {
+      if (!element || text === undefined) {
         throw new Error("Element selector and text required for type action");
       }
-      await typeText(element, text);
+      await typeText(element, text, { ...options, mode, delay });
       break;
 
     case "hover":
       if (!element) {
         throw new Error("Element selector required for hover action");
       }
-      await hover(element);
+      await hover(element, options);
       break;
 
     case "select":
@@ -213,7 +297,21 @@ async function handleInteract(params: InteractParams): Promise<any> {
       if (!key) {
         throw new Error("Key required for press action");
       }
-      await press(key);
+      await press(key, { ...options, element, repeat });
+      break;
+
+    case "upload":
+      if (!element || !files?.length) {
+        throw new Error("Element selector and files required for upload action");
+      }
+      await upload(element, files);
+      break;
+
+    case "drag":
+      if (!element || (!target && !offset)) {
+        throw new Error("Element selector and a target or offset required for drag action");
+      }
+      await drag(element, { target, offset }, options);
       break;
 
     default:
@@ -221,26 +319,54 @@ async function handleInteract(params: InteractParams): Promise<any> {
   }
 
   // Build response
-  const result: any = { success: true };
+  const result: InteractResult = { success: true };
 
   // Include snapshot if requested
   if (includeSnapshot) {
-    const snapshot = generateAriaSnapshot();
+    const snapshot = await takeSnapshot(diff === true);
+    result.url = snapshot.url;
+    result.title = snapshot.title;
+    result.aria = snapshot.aria;
+    result.diff = snapshot.diff;
+  }
+
+  return result;
+}
+
+/**
+ * Handle scroll request
+ */
+async function handleScroll(params: ScrollParams): Promise<ScrollResult> {
+  const result = await scroll(params);
+
+  // Include snapshot if requested
+  if (params.snapshot) {
+    const snapshot = await takeSnapshot(params.diff === true);
     result.url = snapshot.url;
     result.title = snapshot.title;
-    result.elements = snapshot.elements;
+    result.aria = snapshot.aria;
+    result.diff = snapshot.diff;
   }
 
   return result;
 }
 
 /**
- * Handle console request
+ * Handle fill_form request
  */
-async function handleConsole(): Promise<any> {
-  const logs = getConsoleLogs();
-  console.log("[Content] Returning", logs.length, "console logs");
-  return { logs };
+async function handleFillForm(params: FillFormParams): Promise<FillFormResult> {
+  const result = await fillForm(params);
+
+  // Include snapshot if requested
+  if (params.snapshot) {
+    const snapshot = await takeSnapshot(params.diff === true);
+    result.url = snapshot.url;
+    result.title = snapshot.title;
+    result.aria = snapshot.aria;
+    result.diff = snapshot.diff;
+  }
+
+  return result;
 }
 
 // Initialize on load
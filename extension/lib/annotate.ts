@@ -0,0 +1,58 @@
+/**
+ * Screenshot annotation
+ *
+ * Draws set-of-marks boxes onto a screenshot: an outline around each
+ * interactive element with its ref in a label at the top-left corner.
+ * Runs in the background worker, using OffscreenCanvas.
+ */
+
+import { toBase64 } from "./base64";
+import type { Mark } from "./protocol";
+
+// Colors cycled through so neighbouring boxes can be told apart
+const COLORS = ["#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4", "#008080", "#9a6324", "#800000"];
+
+// Label font size in CSS pixels
+const FONT_SIZE = 11;
+
+/**
+ * Draw the marks onto a screenshot
+ *
+ * @param dataUrl - Screenshot of the viewport as a data URL
+ * @param marks - Boxes in CSS pixels relative to the viewport
+ * @param devicePixelRatio - Image pixels per CSS pixel
+ * @returns The annotated screenshot as a PNG data URL
+ */
+export async function annotateScreenshot(dataUrl: string, marks: Mark[], devicePixelRatio: number): Promise<string> {
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  // Draw in CSS pixels
+  ctx.scale(devicePixelRatio, devicePixelRatio);
+  ctx.font = `bold ${FONT_SIZE}px sans-serif`;
+  ctx.textBaseline = "top";
+  ctx.lineWidth = 2;
+
+  marks.forEach((mark, index) => {
+    const color = COLORS[index % COLORS.length];
+
+    ctx.strokeStyle = color;
+    ctx.strokeRect(mark.x + 1, mark.y + 1, Math.max(0, mark.width - 2), Math.max(0, mark.height - 2));
+
+    // Label above the box, or inside it at the top of the viewport
+    const labelWidth = ctx.measureText(mark.ref).width + 6;
+    const labelHeight = FONT_SIZE + 4;
+    const labelY = mark.y >= labelHeight ? mark.y - labelHeight : mark.y;
+
+    ctx.fillStyle = color;
+    ctx.fillRect(mark.x, labelY, labelWidth, labelHeight);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(mark.ref, mark.x + 3, labelY + 2);
+  });
+
+  const blob = await canvas.convertToBlob({ type: "image/png" });
+  return `data:image/png;base64,${toBase64(new Uint8Array(await blob.arrayBuffer()))}`;
+}
@@ -6,17 +6,65 @@
  *
  * Key features:
  * - Traverses DOM including shadow DOM and aria-owns relationships
+ * - Preserves nesting of landmarks, dialogs, lists, tables and groups
  * - Computes accessible roles and names following ARIA spec
  * - Tracks element states (focused, checked, disabled, expanded, etc.)
- * - Assigns stable refs to interactive elements
+ * - Assigns refs that are unique and stable for the lifetime of the document
  * - Handles visibility detection
  */
 
 import type { AriaElement, AriaSnapshot } from "./protocol";
 
+// Number of random lowercase letters in the page id
+const PAGE_ID_LENGTH = 4;
+
+/**
+ * Identifies this document in every ref it hands out, so a ref copied from a
+ * snapshot of a previous page can be told apart from one issued here.
+ * Four random letters give 456,976 ids, so consecutive pages practically
+ * never share one, while refs stay short (e.g. "kqwme12").
+ */
+const PAGE_ID = Array.from({ length: PAGE_ID_LENGTH }, randomLetter).join("");
+
+// Matches refs issued by any page: page id, then "e" and the element number
+const REF_PATTERN = new RegExp(`^[a-z]{${PAGE_ID_LENGTH}}e\\d+$`);
+
 let elementRefCounter = 0;
 const elementRefMap = new WeakMap<Element, string>();
 
+// Reverse lookup for refs whose elements were still attached at the last snapshot
+const refElementMap = new Map<string, Element>();
+
+// Refs whose elements have since been removed from the document
+const detachedRefs = new Set<string>();
+
+/**
+ * Roles of elements the user can interact with. They are always included
+ * in the snapshot.
+ */
+export const INTERACTIVE_ROLES = [
+  "button", "link", "textbox", "checkbox", "radio",
+  "combobox", "searchbox", "slider", "spinbutton",
+  "menuitem", "menuitemcheckbox", "menuitemradio",
+  "tab", "switch", "option", "treeitem"
+];
+
+/**
+ * Roles that group other elements. They are kept in the snapshot so that
+ * their descendants can be nested under them, but they take no name from
+ * their content.
+ */
+const CONTAINER_ROLES = [
+  // Landmarks
+  "navigation", "main", "banner", "contentinfo", "complementary",
+  "region", "article", "form", "search",
+  // Dialogs
+  "dialog", "alertdialog",
+  // Lists, tables and groups
+  "list", "listbox", "table", "grid", "treegrid", "tree",
+  "menu", "menubar", "tablist", "toolbar", "radiogroup", "group"
+];
+
 /**
  * Generate an ARIA accessibility tree snapshot of the current page.
  *
@@ -24,16 +72,16 @@ const elementRefMap = new WeakMap<Element, string>();
  * and extracts accessibility information for interactive and semantically meaningful elements.
  *
  * The snapshot includes:
- * - Element references (e1, e2, etc.) for interaction targeting
+ * - Element references (e.g. "kqwme1", "kqwme2") for interaction targeting
  * - ARIA roles (both explicit and implicit from HTML semantics)
  * - Accessible names (from aria-label, labels, text content, etc.)
  * - Element states (focused, checked, disabled, expanded, etc.)
+ * - Nesting (parent ref and depth) so the list can be rendered as a tree
  *
- * @returns AriaSnapshot object with page metadata and element list
+ * @returns AriaSnapshot object with page metadata and element list in document order
  */
 export function generateAriaSnapshot(): AriaSnapshot {
-  // Reset counter for new snapshot
-  elementRefCounter = 0;
+  pruneDetachedRefs();
 
   const elements: AriaElement[] = [];
 
@@ -59,10 +107,20 @@ export function generateAriaSnapshot(): AriaSnapshot {
  * - aria-owns (includes owned elements)
  * - Hidden elements (skips them and their descendants)
  *
+ * Elements without a meaningful role are transparent: their included
+ * descendants are attached to the nearest included ancestor.
+ *
  * @param node - The DOM node to process
  * @param elements - Accumulator array for discovered ARIA elements
+ * @param parentRef - Ref of the nearest included ancestor, if any
+ * @param depth - Nesting depth for elements included at this level
  */
-function walkAriaTree(node: Node, elements: AriaElement[]): void {
+function walkAriaTree(
+  node: Node,
+  elements: AriaElement[],
+  parentRef?: string,
+  depth: number = 0
+): void {
   if (node.nodeType !== Node.ELEMENT_NODE) {
     return;
   }
@@ -77,6 +135,8 @@ function walkAriaTree(node: Node, elements: AriaElement[]): void {
   const role = getAriaRole(element);
 
   // Only include elements with meaningful roles
+  let childParentRef = parentRef;
+  let childDepth = depth;
   if (role && shouldIncludeElement(role, element)) {
     const ref = getOrCreateRef(element);
     const name = getAccessibleName(element);
@@ -86,14 +146,19 @@ function walkAriaTree(node: Node, elements: AriaElement[]): void {
       ref,
       role,
       name,
-      states
+      states,
+      depth,
+      parent: parentRef
     });
+
+    childParentRef = ref;
+    childDepth = depth + 1;
   }
 
   // Recursively process children (including shadow DOM and aria-owns)
   const children = getChildren(element);
   for (const child of children) {
-    walkAriaTree(child, elements);
+    walkAriaTree(child, elements, childParentRef, childDepth);
   }
 
   // Handle aria-owns: elements owned by this element but located elsewhere in DOM
@@ -104,7 +169,7 @@ function walkAriaTree(node: Node, elements: AriaElement[]): void {
       if (id) {
         const owned = document.getElementById(id);
         if (owned) {
-          walkAriaTree(owned, elements);
+          walkAriaTree(owned, elements, childParentRef, childDepth);
         }
       }
     }
@@ -115,38 +180,87 @@ function walkAriaTree(node: Node, elements: AriaElement[]): void {
  * Get or create a stable reference for an element.
  *
  * Refs are cached in a WeakMap so that the same element always gets the same ref
- * within a session (until the element is garbage collected).
+ * for the lifetime of the document. The counter is never reset, so a ref is
+ * never reused for a different element.
  *
  * @param element - The element to get a ref for
- * @returns A unique reference string like "e1", "e2", etc.
+ * @returns A unique reference string like "kqwme1", "kqwme2", etc.
  */
-function getOrCreateRef(element: Element): string {
+export function getOrCreateRef(element: Element): string {
   let ref = elementRefMap.get(element);
   if (!ref) {
     elementRefCounter++;
-    ref = `e${elementRefCounter}`;
+    ref = `${PAGE_ID}e${elementRefCounter}`;
     elementRefMap.set(element, ref);
   }
+  refElementMap.set(ref, element);
   return ref;
 }
 
+/**
+ * Forget elements that have been removed from the document.
+ *
+ * Their refs are remembered as detached so that lookups can report them as
+ * stale rather than as unknown.
+ */
+function pruneDetachedRefs(): void {
+  for (const [ref, element] of refElementMap) {
+    if (!element.isConnected) {
+      refElementMap.delete(ref);
+      detachedRefs.add(ref);
+    }
+  }
+}
+
 /**
  * Find an element by its reference ID.
  *
  * This is used by the interaction handler to locate elements for clicking, typing, etc.
  *
- * @param ref - The reference string (e.g., "e1")
- * @returns The element with that ref, or null if not found
+ * @param ref - The reference string (e.g., "kqwme1")
+ * @returns The element with that ref, or null if not found or no longer attached
  */
 export function findElementByRef(ref: string): Element | null {
-  for (const [element, elementRef] of elementRefMap.entries()) {
-    if (elementRef === ref) {
-      return element;
-    }
+  const element = refElementMap.get(ref);
+  if (!element || !element.isConnected) {
+    return null;
   }
+  return element;
+}
+
+/**
+ * Explain why a ref can no longer be used, if it is stale.
+ *
+ * A ref is stale when it was issued by this document but its element has
+ * been removed, or when it was issued by a previous page loaded in this tab.
+ *
+ * @param ref - The reference string
+ * @returns A description of why the ref is stale, or null if it is not stale
+ */
+export function getStaleRefReason(ref: string): string | null {
+  if (!REF_PATTERN.test(ref)) {
+    return null;
+  }
+
+  if (!ref.startsWith(PAGE_ID)) {
+    return `Element ref "${ref}" belongs to a previous page`;
+  }
+
+  const element = refElementMap.get(ref);
+  if (detachedRefs.has(ref) || (element && !element.isConnected)) {
+    return `Element ref "${ref}" refers to an element that was removed from the page`;
+  }
+
   return null;
 }
 
+/**
+ * Pick a random lowercase letter for the page id.
+ */
+function randomLetter(): string {
+  return String.fromCharCode(97 + Math.floor(Math.random() * 26));
+}
+
 /**
  * Get the ARIA role of an element (explicit or implicit).
  *
@@ -199,7 +313,13 @@ function getAriaRole(element: Element): string | null {
     "li": "listitem",
     "dialog": "dialog",
     "td": "cell",
-    "th": "columnheader"
+    "th": "columnheader",
+    "tr": "row",
+    "iframe": "iframe",
+    "frame": "iframe",
+    "fieldset": "group",
+    "details": "group",
+    "menu": "list"
   };
 
   return implicitRoles[tagName] || null;
@@ -308,6 +428,15 @@ function getAccessibleName(element: Element): string {
     return normalizeWhitespace(element.textContent || "");
   }
 
+  // Containers are only named explicitly; their content appears as children
+  if (role && CONTAINER_ROLES.includes(role)) {
+    if (element instanceof HTMLFieldSetElement) {
+      const legend = element.querySelector(":scope > legend");
+      return normalizeWhitespace(legend?.textContent || "");
+    }
+    return "";
+  }
+
   // For textareas and inputs with values, use the value
   if (element instanceof HTMLTextAreaElement) {
     return normalizeWhitespace(element.value);
@@ -512,7 +641,8 @@ function getLevel(element: Element): number | undefined {
  *
  * Includes:
  * - Interactive elements (buttons, links, form controls, etc.)
- * - Structural/landmark elements (headings, navigation, main, etc.)
+ * - Headings and structural containers (landmarks, dialogs, lists, tables, groups)
+ * - List items, table rows and cells
  * - Images with alt text
  * - Menu items, tabs, tree items
  *
@@ -524,24 +654,18 @@ function getLevel(element: Element): number | undefined {
  */
 function shouldIncludeElement(role: string, element: Element): boolean {
   // Include interactive elements
-  const interactiveRoles = [
-    "button", "link", "textbox", "checkbox", "radio",
-    "combobox", "searchbox", "slider", "spinbutton",
-    "menuitem", "menuitemcheckbox", "menuitemradio",
-    "tab", "switch", "option", "treeitem"
-  ];
-
-  if (interactiveRoles.includes(role)) {
+  if (INTERACTIVE_ROLES.includes(role)) {
     return true;
   }
 
-  // Include structural/landmark elements
-  const structuralRoles = [
-    "heading", "navigation", "main", "banner", "contentinfo",
-    "complementary", "region", "article", "form", "search"
-  ];
+  // Include headings and the containers that give the tree its structure
+  // (iframes are containers for the frame's own snapshot, see frames.ts)
+  if (role === "heading" || role === "iframe" || CONTAINER_ROLES.includes(role)) {
+    return true;
+  }
 
-  if (structuralRoles.includes(role)) {
+  // List items, rows and cells carry the text that identifies them ("the second row")
+  if (["listitem", "row", "cell", "gridcell", "columnheader", "rowheader"].includes(role)) {
     return true;
   }
 
@@ -603,7 +727,7 @@ function isHidden(element: Element): boolean {
  * @param element - Parent element
  * @returns Array of child nodes to traverse
  */
-function getChildren(element: Element): Node[] {
+export function getChildren(element: Element): Node[] {
   const children: Node[] = [];
 
   // Handle <slot> elements: use assigned nodes (the slotted content)
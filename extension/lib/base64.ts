@@ -0,0 +1,20 @@
+/**
+ * Base64 encoding
+ *
+ * Encodes binary content (screenshots, downloaded files) for the JSON
+ * messages sent to the server.
+ */
+
+// Bytes converted per String.fromCharCode call, within its argument limit
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Encode bytes as base64, in chunks to stay within argument limits
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
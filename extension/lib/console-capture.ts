@@ -1,109 +1,459 @@
 /**
  * Console log capture
  *
- * Intercepts and stores console messages for retrieval via the console tool.
+ * Records the page's console output through the DevTools Protocol Runtime
+ * and Log domains and stores it for retrieval via the console tool. Runs in
+ * the background worker.
+ *
+ * Captures what the page itself logs (console calls from page scripts in
+ * every frame), uncaught errors and unhandled promise rejections with their
+ * stack traces, and messages the browser logs on the page's behalf, such as
+ * failed resource loads and Content Security Policy violations. Console
+ * calls from extension content scripts are ignored.
  */
 
-import type { ConsoleLog } from "./protocol";
+import { sendDebuggerCommand } from "./debugger";
+import { ErrorCode } from "./protocol";
+import type { ConsoleLog, ConsoleParams, ConsoleResult } from "./protocol";
 
 // Maximum number of logs to store
 const MAX_LOGS = 1000;
 
-// Store for captured console logs
-const capturedLogs: ConsoleLog[] = [];
+// Number of logs returned when no limit is given
+const DEFAULT_LIMIT = 100;
+
+// Maximum number of stack frames kept per entry
+const MAX_STACK_FRAMES = 10;
+
+interface CapturedLog extends ConsoleLog {
+  tabId: number;
+  seq: number; // Position in the capture order, used as the paging cursor
+}
+
+// Fields read from Runtime and Log domain payloads
+
+interface RemoteObject {
+  type: string;
+  subtype?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  preview?: ObjectPreview;
+}
+
+interface ObjectPreview {
+  subtype?: string;
+  overflow: boolean;
+  properties: { name: string; type: string; value?: string }[];
+}
+
+interface CallFrame {
+  functionName: string;
+  url: string;
+  lineNumber: number;   // Zero-based
+  columnNumber: number; // Zero-based
+}
+
+interface StackTrace {
+  callFrames: CallFrame[];
+}
+
+interface ExceptionDetails {
+  text: string;
+  url?: string;
+  lineNumber: number;
+  columnNumber: number;
+  executionContextId?: number;
+  exception?: RemoteObject;
+  stackTrace?: StackTrace;
+}
+
+interface ExecutionContextCreatedEvent {
+  context: { id: number; auxData?: { isDefault?: boolean } };
+}
+
+interface ExecutionContextDestroyedEvent {
+  executionContextId: number;
+}
+
+interface ConsoleAPICalledEvent {
+  type: string;
+  args: RemoteObject[];
+  executionContextId: number;
+  timestamp: number; // Milliseconds since epoch
+  stackTrace?: StackTrace;
+}
+
+interface ExceptionThrownEvent {
+  timestamp: number; // Milliseconds since epoch
+  exceptionDetails: ExceptionDetails;
+}
+
+interface EntryAddedEvent {
+  entry: {
+    source: string;
+    level: string;
+    text: string;
+    timestamp: number; // Milliseconds since epoch
+    url?: string;
+    lineNumber?: number;
+    stackTrace?: StackTrace;
+  };
+}
+
+// Store for captured console logs, oldest first
+const capturedLogs: CapturedLog[] = [];
 
-// Original console methods
-const originalConsole = {
-  log: console.log,
-  info: console.info,
-  warn: console.warn,
-  error: console.error,
-  debug: console.debug
+// Sequence number of the most recently captured log
+let lastSeq = 0;
+
+// Ordering of levels for the minimum level filter
+const LEVEL_RANK: Record<ConsoleLog["level"], number> = {
+  debug: 0,
+  log: 1,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+// Callbacks run when a log entry is captured
+const logListeners = new Set<(tabId: number) => void>();
+
+// Page (main world) execution contexts by tab; other contexts belong to extensions
+const pageContexts = new Map<number, Set<number>>();
+
+// Console API call types and the level they are reported at
+const CONSOLE_LEVELS: Record<string, ConsoleLog["level"]> = {
+  log: "log",
+  info: "info",
+  warning: "warn",
+  error: "error",
+  assert: "error",
+  debug: "debug",
+  trace: "debug",
+  dir: "log",
+  dirxml: "log",
+  table: "log"
+};
+
+// Log domain levels
+const LOG_ENTRY_LEVELS: Record<string, ConsoleLog["level"]> = {
+  verbose: "debug",
+  info: "info",
+  warning: "warn",
+  error: "error"
 };
 
+chrome.debugger.onEvent.addListener((source, method, params) => {
+  if (source.tabId !== undefined && (method.startsWith("Runtime.") || method.startsWith("Log."))) {
+    handleConsoleEvent(source.tabId, method, params ?? {});
+  }
+});
+
 /**
- * Initialize console capture
- * Call this once when the content script loads
+ * Start recording console output for a tab
+ *
+ * @param tabId - Tab to record
  */
-export function initConsoleCapture(): void {
-  // Override console methods
-  console.log = createInterceptor("log", originalConsole.log);
-  console.info = createInterceptor("info", originalConsole.info);
-  console.warn = createInterceptor("warn", originalConsole.warn);
-  console.error = createInterceptor("error", originalConsole.error);
-  console.debug = createInterceptor("debug", originalConsole.debug);
+export async function startConsoleCapture(tabId: number): Promise<void> {
+  pageContexts.set(tabId, new Set());
+  // Enabling Runtime reports the existing execution contexts before new output
+  await sendDebuggerCommand(tabId, "Runtime.enable");
+  await sendDebuggerCommand(tabId, "Log.enable");
 }
 
 /**
- * Create an interceptor function for a console method
+ * Get captured console logs for a tab, optionally filtered
+ *
+ * @param tabId - Tab to get logs for
+ * @param params - Level, time, cursor and text filters, and page size
+ * @returns Matching logs, oldest first, with the cursor to continue from
  */
-function createInterceptor(
-  level: ConsoleLog["level"],
-  originalMethod: (...args: any[]) => void
-) {
-  return function(...args: any[]): void {
-    // Capture the log
-    captureLog(level, args);
-
-    // Call original method
-    originalMethod.apply(console, args);
+export function getConsoleLogs(tabId: number, params: ConsoleParams = {}): ConsoleResult {
+  let textPattern: RegExp | null = null;
+  try {
+    textPattern = params.text ? new RegExp(params.text, "i") : null;
+  } catch {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: `Invalid text pattern: ${params.text}`
+    }));
+  }
+
+  const minRank = params.level ? LEVEL_RANK[params.level] : 0;
+  const matches = capturedLogs.filter(log =>
+    log.tabId === tabId &&
+    LEVEL_RANK[log.level] >= minRank &&
+    (params.cursor === undefined || log.seq > params.cursor) &&
+    (params.since === undefined || log.ts >= params.since) &&
+    (!textPattern || textPattern.test(log.text))
+  );
+
+  const page = matches.slice(0, params.limit ?? DEFAULT_LIMIT);
+  const hasMore = page.length < matches.length;
+
+  return {
+    logs: page.map(({ tabId: _tabId, seq: _seq, ...log }) => log),
+    // Without more matches, everything captured so far has been seen
+    cursor: hasMore ? page[page.length - 1].seq : lastSeq,
+    hasMore
   };
 }
 
 /**
- * Capture a console log
+ * Clear captured console logs for a tab
+ *
+ * @param tabId - Tab whose logs to remove
+ * @param cursor - Only remove logs up to and including this cursor
+ */
+export function clearConsoleLogs(tabId: number, cursor: number = Infinity): void {
+  for (let i = capturedLogs.length - 1; i >= 0; i--) {
+    if (capturedLogs[i].tabId === tabId && capturedLogs[i].seq <= cursor) {
+      capturedLogs.splice(i, 1);
+    }
+  }
+}
+
+/**
+ * Stop tracking a tab's execution contexts and forget its logs
+ *
+ * @param tabId - Tab that is no longer controlled
+ */
+export function stopConsoleCapture(tabId: number): void {
+  pageContexts.delete(tabId);
+  clearConsoleLogs(tabId);
+}
+
+/**
+ * Register a callback run with the tab ID whenever a log entry is captured
  */
-function captureLog(level: ConsoleLog["level"], args: any[]): void {
-  // Convert args to string
-  const text = args.map(arg => {
-    if (typeof arg === "string") {
-      return arg;
+export function onConsoleLog(listener: (tabId: number) => void): void {
+  logListeners.add(listener);
+}
+
+/**
+ * Update the store from a Runtime or Log domain event
+ */
+function handleConsoleEvent(tabId: number, method: string, event: object): void {
+  const contexts = pageContexts.get(tabId);
+  if (!contexts) {
+    return;
+  }
+
+  switch (method) {
+    case "Runtime.executionContextCreated": {
+      const { context } = event as ExecutionContextCreatedEvent;
+      if (context.auxData?.isDefault) {
+        contexts.add(context.id);
+      }
+      break;
     }
-    if (arg instanceof Error) {
-      return `${arg.name}: ${arg.message}\n${arg.stack}`;
+
+    case "Runtime.executionContextDestroyed":
+      contexts.delete((event as ExecutionContextDestroyedEvent).executionContextId);
+      break;
+
+    case "Runtime.executionContextsCleared":
+      contexts.clear();
+      break;
+
+    case "Runtime.consoleAPICalled": {
+      const params = event as ConsoleAPICalledEvent;
+      if (!contexts.has(params.executionContextId)) {
+        return;
+      }
+      captureLog(tabId, {
+        level: CONSOLE_LEVELS[params.type] ?? "log",
+        ts: Math.round(params.timestamp),
+        text: formatConsoleArgs(params.type, params.args),
+        source: "console",
+        ...getLocation(params.stackTrace),
+        stack: params.type === "trace" || params.type === "error" || params.type === "assert"
+          ? formatStackTrace(params.stackTrace)
+          : undefined
+      });
+      break;
     }
-    try {
-      return JSON.stringify(arg, null, 2);
-    } catch {
-      return String(arg);
+
+    case "Runtime.exceptionThrown": {
+      const params = event as ExceptionThrownEvent;
+      const details = params.exceptionDetails;
+      if (details.executionContextId !== undefined && !contexts.has(details.executionContextId)) {
+        return;
+      }
+      captureLog(tabId, {
+        level: "error",
+        ts: Math.round(params.timestamp),
+        text: formatException(details),
+        source: "exception",
+        location: details.url ? formatLocation(details.url, details.lineNumber, details.columnNumber) : undefined,
+        stack: formatStackTrace(details.stackTrace)
+      });
+      break;
     }
-  }).join(" ");
 
-  const log: ConsoleLog = {
-    level,
-    ts: Date.now(),
-    text
-  };
+    case "Log.entryAdded": {
+      const { entry } = event as EntryAddedEvent;
+      captureLog(tabId, {
+        level: LOG_ENTRY_LEVELS[entry.level] ?? "info",
+        ts: Math.round(entry.timestamp),
+        text: entry.text,
+        source: entry.source,
+        location: entry.url ? formatLocation(entry.url, entry.lineNumber) : undefined,
+        stack: formatStackTrace(entry.stackTrace)
+      });
+      break;
+    }
+  }
+}
 
-  capturedLogs.push(log);
+/**
+ * Store a log entry
+ */
+function captureLog(tabId: number, log: ConsoleLog): void {
+  capturedLogs.push({ tabId, seq: ++lastSeq, ...log });
 
   // Keep only the last MAX_LOGS entries
   if (capturedLogs.length > MAX_LOGS) {
     capturedLogs.shift();
   }
+
+  for (const listener of logListeners) {
+    listener(tabId);
+  }
 }
 
 /**
- * Get all captured console logs
+ * Render console call arguments as the DevTools console would, applying
+ * format specifiers (%s, %d, %o, ...) in a leading string argument
  */
-export function getConsoleLogs(): ConsoleLog[] {
-  return [...capturedLogs];
+function formatConsoleArgs(type: string, args: RemoteObject[]): string {
+  const remaining = [...args];
+  const parts: string[] = [];
+
+  if (type === "assert") {
+    parts.push("Assertion failed:");
+  }
+
+  const first = remaining[0];
+  if (first?.type === "string" && /%[sdifoOc]/.test(String(first.value))) {
+    remaining.shift();
+    parts.push(String(first.value).replace(/%([sdifoOc])/g, (match: string, specifier: string) => {
+      if (remaining.length === 0) {
+        return match;
+      }
+      const arg = remaining.shift()!;
+      switch (specifier) {
+        case "c":
+          return ""; // CSS styling has no text form
+        case "d":
+        case "i":
+          return String(Math.trunc(Number(arg.value)));
+        case "f":
+          return String(Number(arg.value));
+        default:
+          return formatRemoteObject(arg);
+      }
+    }));
+  }
+
+  parts.push(...remaining.map(formatRemoteObject));
+  return parts.join(" ");
 }
 
 /**
- * Clear all captured console logs
+ * Render a protocol RemoteObject as text
  */
-export function clearConsoleLogs(): void {
-  capturedLogs.length = 0;
+function formatRemoteObject(object: RemoteObject): string {
+  if (object.type === "string") {
+    return String(object.value);
+  }
+  if (object.type === "undefined") {
+    return "undefined";
+  }
+  if (object.unserializableValue !== undefined) {
+    return object.unserializableValue; // NaN, Infinity, -0, bigints
+  }
+  if (object.value !== undefined) {
+    return JSON.stringify(object.value);
+  }
+  if (object.preview && object.subtype !== "error") {
+    return formatObjectPreview(object.preview);
+  }
+  return object.description ?? String(object.type);
+}
+
+/**
+ * Render an object preview, e.g. {id: 1, name: "Ada"} or [1, 2, 3]
+ */
+function formatObjectPreview(preview: ObjectPreview): string {
+  const isArray = preview.subtype === "array";
+  const entries = (preview.properties ?? []).map((property) => {
+    const value = property.type === "string" ? JSON.stringify(property.value) : property.value;
+    return isArray ? value : `${property.name}: ${value}`;
+  });
+  if (preview.overflow) {
+    entries.push("...");
+  }
+  return isArray ? `[${entries.join(", ")}]` : `{${entries.join(", ")}}`;
+}
+
+/**
+ * Describe an uncaught exception or unhandled rejection,
+ * e.g. "Uncaught (in promise) TypeError: x is undefined"
+ */
+function formatException(details: ExceptionDetails): string {
+  const exception = details.exception;
+  if (!exception) {
+    return details.text;
+  }
+  // Error descriptions include the stack; keep the message line only
+  const description = exception.subtype === "error"
+    ? String(exception.description ?? "").split("\n")[0]
+    : formatRemoteObject(exception);
+  return `${details.text} ${description}`;
+}
+
+/**
+ * Get the location of the innermost frame of a stack trace
+ */
+function getLocation(stackTrace: StackTrace | undefined): { location?: string } {
+  const frame = stackTrace?.callFrames?.[0];
+  if (!frame?.url) {
+    return {};
+  }
+  return { location: formatLocation(frame.url, frame.lineNumber, frame.columnNumber) };
 }
 
 /**
- * Stop console capture and restore original methods
+ * Format a source location as url:line:column (protocol positions are zero-based)
  */
-export function stopConsoleCapture(): void {
-  console.log = originalConsole.log;
-  console.info = originalConsole.info;
-  console.warn = originalConsole.warn;
-  console.error = originalConsole.error;
-  console.debug = originalConsole.debug;
+function formatLocation(url: string, lineNumber?: number, columnNumber?: number): string {
+  let location = url;
+  if (lineNumber !== undefined) {
+    location += `:${lineNumber + 1}`;
+    if (columnNumber !== undefined) {
+      location += `:${columnNumber + 1}`;
+    }
+  }
+  return location;
+}
+
+/**
+ * Format a protocol stack trace as "at fn (url:line:column)" lines
+ */
+function formatStackTrace(stackTrace: StackTrace | undefined): string | undefined {
+  const frames = stackTrace?.callFrames ?? [];
+  if (frames.length === 0) {
+    return undefined;
+  }
+
+  const lines = frames.slice(0, MAX_STACK_FRAMES).map(frame => {
+    const location = formatLocation(frame.url || "<anonymous>", frame.lineNumber, frame.columnNumber);
+    return frame.functionName ? `at ${frame.functionName} (${location})` : `at ${location}`;
+  });
+  if (frames.length > MAX_STACK_FRAMES) {
+    lines.push(`... ${frames.length - MAX_STACK_FRAMES} more frames`);
+  }
+  return lines.join("\n");
 }
@@ -0,0 +1,92 @@
+/**
+ * Chrome debugger sessions
+ *
+ * Attaches the Chrome DevTools Protocol to controlled tabs on demand and
+ * keeps the session open until the tab closes, the user cancels the
+ * debugging infobar, or the extension disconnects. A later command attaches
+ * again, and the attach listeners re-enable the domains they need, since a
+ * new session starts with none enabled.
+ */
+
+// Tabs with an attached debugger session
+const attachedTabs = new Set<number>();
+
+// Attach calls in progress, so concurrent commands share one attach
+const pendingAttaches = new Map<number, Promise<void>>();
+
+// Callbacks run after each attach, before commands are sent to the new session
+const attachListeners = new Set<(tabId: number) => Promise<void>>();
+
+// Protocol version required from the browser
+const PROTOCOL_VERSION = "1.3";
+
+chrome.debugger.onDetach.addListener((source) => {
+  if (source.tabId !== undefined) {
+    attachedTabs.delete(source.tabId);
+  }
+});
+
+/**
+ * Attach the debugger to a tab if it is not attached already
+ *
+ * @param tabId - Tab to attach to
+ */
+export async function attachDebugger(tabId: number): Promise<void> {
+  if (attachedTabs.has(tabId)) {
+    return;
+  }
+
+  let pending = pendingAttaches.get(tabId);
+  if (!pending) {
+    pending = chrome.debugger.attach({ tabId }, PROTOCOL_VERSION)
+      .then(async () => {
+        attachedTabs.add(tabId);
+        await Promise.all(Array.from(attachListeners, (listener) => listener(tabId)));
+      })
+      .finally(() => {
+        pendingAttaches.delete(tabId);
+      });
+    pendingAttaches.set(tabId, pending);
+  }
+  await pending;
+}
+
+/**
+ * Register a callback run after the debugger attaches to a tab, e.g. to enable a protocol domain
+ *
+ * The callback can send commands to the tab; the attach waits for it.
+ */
+export function onDebuggerAttach(listener: (tabId: number) => Promise<void>): void {
+  attachListeners.add(listener);
+}
+
+/**
+ * Send a DevTools Protocol command to a tab, attaching first if needed
+ *
+ * @param tabId - Tab to send the command to
+ * @param method - Protocol method (e.g. "Input.dispatchMouseEvent")
+ * @param params - Method parameters
+ * @returns The command result
+ */
+export async function sendDebuggerCommand<T = any>(
+  tabId: number,
+  method: string,
+  params: Record<string, any> = {}
+): Promise<T> {
+  await attachDebugger(tabId);
+  return (await chrome.debugger.sendCommand({ tabId }, method, params)) as T;
+}
+
+/**
+ * Detach the debugger from all tabs
+ */
+export async function detachAllDebuggers(): Promise<void> {
+  for (const tabId of attachedTabs) {
+    try {
+      await chrome.debugger.detach({ tabId });
+    } catch {
+      // Tab already closed or debugger detached by the user
+    }
+  }
+  attachedTabs.clear();
+}
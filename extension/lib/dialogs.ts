@@ -0,0 +1,162 @@
+/**
+ * JavaScript dialog handling
+ *
+ * Detects alert, confirm, prompt and beforeunload dialogs through the
+ * DevTools Protocol Page domain and handles them according to the dialog
+ * policy: accepted or dismissed right away, or left open until the agent
+ * handles them with handle_dialog. An open dialog blocks the page's main
+ * thread, content scripts included, so requests to the tab cannot be
+ * answered until it is closed. Runs in the background worker.
+ */
+
+import { sendDebuggerCommand } from "./debugger";
+import { ErrorCode } from "./protocol";
+import type { DialogInfo, DialogPolicy, HandleDialogParams } from "./protocol";
+
+// Fields read from the Page.javascriptDialogOpening event
+interface DialogOpeningEvent {
+  url: string;
+  message: string;
+  type: DialogInfo["type"];
+  defaultPrompt?: string;
+}
+
+// How dialogs are handled when they open
+let dialogPolicy: DialogPolicy = "ask";
+
+// Dialog waiting for handle_dialog, by tab
+const openDialogs = new Map<number, DialogInfo>();
+
+// Dialogs handled by the policy and not reported yet, by tab
+const handledDialogs = new Map<number, DialogInfo[]>();
+
+// Callbacks run when a dialog is left open for the agent
+const openListeners = new Set<(tabId: number, dialog: DialogInfo) => void>();
+
+chrome.debugger.onEvent.addListener((source, method, params) => {
+  if (source.tabId === undefined) {
+    return;
+  }
+  if (method === "Page.javascriptDialogOpening") {
+    handleDialogOpening(source.tabId, params as DialogOpeningEvent);
+  } else if (method === "Page.javascriptDialogClosed") {
+    openDialogs.delete(source.tabId);
+  }
+});
+
+// A dialog cannot be handled once the debugger is gone; it stays with the user
+chrome.debugger.onDetach.addListener((source) => {
+  if (source.tabId !== undefined) {
+    openDialogs.delete(source.tabId);
+  }
+});
+
+/**
+ * Start detecting dialogs in a tab
+ */
+export async function startDialogTracking(tabId: number): Promise<void> {
+  await sendDebuggerCommand(tabId, "Page.enable");
+}
+
+/**
+ * Set how dialogs are handled from now on
+ */
+export function setDialogPolicy(policy: DialogPolicy): void {
+  dialogPolicy = policy;
+}
+
+/**
+ * Register a callback for dialogs left open for the agent
+ */
+export function onDialogOpened(listener: (tabId: number, dialog: DialogInfo) => void): void {
+  openListeners.add(listener);
+}
+
+/**
+ * Get the dialog waiting for handle_dialog in a tab, if any
+ */
+export function getOpenDialog(tabId: number): DialogInfo | undefined {
+  return openDialogs.get(tabId);
+}
+
+/**
+ * Get the dialogs the policy handled in a tab since the previous call
+ */
+export function takeHandledDialogs(tabId: number): DialogInfo[] {
+  const dialogs = handledDialogs.get(tabId) ?? [];
+  handledDialogs.delete(tabId);
+  return dialogs;
+}
+
+/**
+ * Accept or dismiss the open dialog of a tab
+ *
+ * @param tabId - Tab showing the dialog
+ * @param params - Whether to accept, and the text to enter into a prompt
+ * @returns The dialog that was handled
+ * @throws INVALID_REQUEST if no dialog is open
+ */
+export async function handleDialog(tabId: number, params: HandleDialogParams): Promise<DialogInfo> {
+  const dialog = openDialogs.get(tabId);
+  if (!dialog) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "No dialog is open"
+    }));
+  }
+
+  const accept = params.action === "accept";
+  await sendDebuggerCommand(tabId, "Page.handleJavaScriptDialog", {
+    accept,
+    promptText: accept && dialog.type === "prompt" ? params.promptText ?? dialog.defaultPrompt ?? "" : undefined
+  });
+  openDialogs.delete(tabId);
+
+  return { ...dialog, handled: accept ? "accepted" : "dismissed" };
+}
+
+/**
+ * Forget the dialogs of a closed tab
+ */
+export function clearDialogs(tabId: number): void {
+  openDialogs.delete(tabId);
+  handledDialogs.delete(tabId);
+}
+
+/**
+ * Describe an open dialog and how to handle it, for errors of blocked requests
+ */
+export function describeOpenDialog(dialog: DialogInfo): string {
+  const message = dialog.message ? `: ${JSON.stringify(dialog.message)}` : "";
+  return `The page opened a ${dialog.type} dialog${message}. It blocks the page until it is accepted or dismissed with handle_dialog.`;
+}
+
+/**
+ * Handle a dialog according to the policy, or keep it open for the agent
+ */
+function handleDialogOpening(tabId: number, event: DialogOpeningEvent): void {
+  const dialog: DialogInfo = {
+    type: event.type,
+    message: event.message,
+    url: event.url,
+    defaultPrompt: event.type === "prompt" ? event.defaultPrompt ?? "" : undefined
+  };
+
+  if (dialogPolicy === "ask") {
+    openDialogs.set(tabId, dialog);
+    for (const listener of openListeners) {
+      listener(tabId, dialog);
+    }
+    return;
+  }
+
+  const accept = dialogPolicy === "accept";
+  sendDebuggerCommand(tabId, "Page.handleJavaScriptDialog", { accept, promptText: accept ? dialog.defaultPrompt : undefined })
+    .catch((error) => {
+      console.error("[Dialogs] Failed to handle dialog:", error);
+    });
+
+  const dialogs = handledDialogs.get(tabId) ?? [];
+  dialogs.push({ ...dialog, handled: accept ? "accepted" : "dismissed" });
+  handledDialogs.set(tabId, dialogs);
+}
@@ -0,0 +1,36 @@
+/**
+ * Download content
+ *
+ * Extensions cannot read files from the disk, so the content of a download
+ * is fetched again from its URL. The content script does this for blob: URLs
+ * and URLs of the page's own origin, which need the page's origin and
+ * cookies; the background worker does it for other URLs.
+ */
+
+import { toBase64 } from "./base64";
+
+/**
+ * Fetch a download's URL and return its content
+ *
+ * @param url - URL the file was downloaded from
+ * @param maxBytes - Largest content to return
+ * @returns The content, base64-encoded
+ * @throws If the URL cannot be fetched again or the content is too large, with the reason as message
+ */
+export async function fetchDownloadContent(url: string, maxBytes: number): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url, { credentials: "include" });
+  } catch {
+    throw new Error("the file could not be fetched again from its URL");
+  }
+  if (!response.ok) {
+    throw new Error(`fetching the file again from its URL failed with HTTP ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  if (blob.size > maxBytes) {
+    throw new Error(`the file is larger than ${maxBytes} bytes`);
+  }
+  return toBase64(new Uint8Array(await blob.arrayBuffer()));
+}
@@ -0,0 +1,274 @@
+/**
+ * Download tracking
+ *
+ * Records the downloads started by controlled tabs through the
+ * chrome.downloads API, so agents can see that a click started a download,
+ * wait for it to finish and find the file, and to check what it contains.
+ * Runs in the background worker.
+ *
+ * Downloads carry no tab ID, so a download is attributed to a controlled
+ * tab when its referrer is the tab's page, or when it is a blob: URL created
+ * by the page's origin. Other downloads from the same site may come from
+ * tabs the agent does not control, so they are not attributed.
+ */
+
+import { fetchDownloadContent } from "./download-content";
+import { ErrorCode, MessageType } from "./protocol";
+import type { DownloadInfo, DownloadsParams } from "./protocol";
+
+// Default time to wait for a download to start and finish
+export const DEFAULT_DOWNLOAD_TIMEOUT = 30000;
+
+// Default largest file whose content is returned
+const DEFAULT_MAX_CONTENT_BYTES = 100 * 1024;
+
+// Download IDs by the tab that started them, oldest first
+const tabDownloads = new Map<number, number[]>();
+
+// ID of the last download returned by wait, by tab
+const lastWaited = new Map<number, number>();
+
+// Callbacks run when a download starts or changes, used by waits
+const changeListeners = new Set<() => void>();
+
+/**
+ * Start attributing new downloads to controlled tabs
+ *
+ * @param getTabIds - Returns the IDs of the tabs under control
+ */
+export function startDownloadTracking(getTabIds: () => Iterable<number>): void {
+  chrome.downloads.onCreated.addListener((item) => {
+    findSourceTab(item, Array.from(getTabIds()))
+      .then((tabId) => {
+        if (tabId === null) {
+          return;
+        }
+        const ids = tabDownloads.get(tabId) ?? [];
+        ids.push(item.id);
+        tabDownloads.set(tabId, ids);
+        notifyChange();
+      })
+      .catch((error) => {
+        console.error("[Downloads] Failed to attribute download:", error);
+      });
+  });
+
+  chrome.downloads.onChanged.addListener(() => notifyChange());
+}
+
+/**
+ * Get the downloads started by a tab, oldest first
+ */
+export async function getDownloads(tabId: number): Promise<DownloadInfo[]> {
+  const ids = tabDownloads.get(tabId) ?? [];
+  const items = await Promise.all(ids.map(getDownloadItem));
+  return items.filter((item): item is chrome.downloads.DownloadItem => item !== null).map(toDownloadInfo);
+}
+
+/**
+ * Wait for a download of a tab to finish
+ *
+ * Without an ID, waits for the first download the tab started after the
+ * one returned by the previous wait, including one that has not started yet.
+ *
+ * @param tabId - Tab that started the download
+ * @param params - Download to wait for, how long to wait and whether to read its content
+ * @returns The download once it completed or was interrupted, with its content if requested
+ * @throws TIMEOUT if no download started or it did not finish in time
+ * @throws INVALID_REQUEST if the ID is not a download of the tab
+ */
+export async function waitForDownload(tabId: number, params: DownloadsParams): Promise<DownloadInfo> {
+  const timeout = params.timeout ?? DEFAULT_DOWNLOAD_TIMEOUT;
+  const deadline = Date.now() + timeout;
+
+  if (params.id !== undefined && !tabDownloads.get(tabId)?.includes(params.id)) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: `Download ${params.id} was not started by this tab`
+    }));
+  }
+
+  while (true) {
+    const id = params.id ?? findNextDownload(tabId);
+    const item = id !== undefined ? await getDownloadItem(id) : null;
+
+    if (item && item.state !== "in_progress") {
+      lastWaited.set(tabId, item.id);
+      const download = toDownloadInfo(item);
+      if (params.includeContent !== false && download.state === "complete") {
+        Object.assign(download, await readDownloadContent(tabId, download, params.maxContentBytes ?? DEFAULT_MAX_CONTENT_BYTES));
+      }
+      return download;
+    }
+
+    if (!(await waitForChange(deadline))) {
+      const progress = item
+        ? `Download ${item.id} did not finish within ${timeout}ms (${describeProgress(item)})`
+        : `No download started within ${timeout}ms`;
+      throw new Error(JSON.stringify({ code: ErrorCode.TIMEOUT, message: progress }));
+    }
+  }
+}
+
+/**
+ * Read the content of a finished download by fetching its URL again
+ *
+ * blob: URLs and URLs of the page's origin are fetched by the tab's content
+ * script, with the page's origin and cookies; other URLs by the background
+ * worker. A URL that answered a form submission may give different content.
+ *
+ * @returns The base64 content, or why it was skipped
+ */
+async function readDownloadContent(
+  tabId: number,
+  download: DownloadInfo,
+  maxBytes: number
+): Promise<Pick<DownloadInfo, "content" | "contentSkipped">> {
+  if ((download.totalBytes ?? download.bytesReceived) > maxBytes) {
+    return { contentSkipped: `the file is larger than ${maxBytes} bytes` };
+  }
+
+  try {
+    const tab = await chrome.tabs.get(tabId);
+    if (getOrigin(download.url) && getOrigin(download.url) === getOrigin(tab.url)) {
+      const response = await chrome.tabs.sendMessage(
+        tabId,
+        { type: MessageType.DOWNLOAD_CONTENT, params: { url: download.url, maxBytes } },
+        { frameId: 0 }
+      );
+      if (response?.error) {
+        throw new Error(response.error);
+      }
+      return { content: response.data };
+    }
+    if (download.url.startsWith("blob:")) {
+      return { contentSkipped: "the blob: URL belongs to another origin than the page" };
+    }
+    return { content: await fetchDownloadContent(download.url, maxBytes) };
+  } catch (error) {
+    return { contentSkipped: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Forget the downloads of a closed tab
+ */
+export function clearDownloads(tabId: number): void {
+  tabDownloads.delete(tabId);
+  lastWaited.delete(tabId);
+}
+
+/**
+ * Find the first download of a tab after the one returned by the previous wait
+ */
+function findNextDownload(tabId: number): number | undefined {
+  const after = lastWaited.get(tabId) ?? -1;
+  return tabDownloads.get(tabId)?.find((id) => id > after);
+}
+
+/**
+ * Find the controlled tab a download came from
+ *
+ * A tab whose page is the referrer wins over one whose origin created the blob: URL.
+ */
+async function findSourceTab(item: chrome.downloads.DownloadItem, tabIds: number[]): Promise<number | null> {
+  const tabs = await Promise.all(tabIds.map((tabId) => chrome.tabs.get(tabId).catch(() => null)));
+  const pages = tabs.filter((tab): tab is chrome.tabs.Tab => tab?.id !== undefined && Boolean(tab.url));
+
+  const referrer = pages.find((tab) => item.referrer && tab.url === item.referrer);
+  if (referrer) {
+    return referrer.id!;
+  }
+
+  // blob: URLs only exist in the documents of the origin that created them
+  if (!item.url.startsWith("blob:") || !getOrigin(item.url)) {
+    return null;
+  }
+  const creator = pages.find((tab) => getOrigin(tab.url) === getOrigin(item.url));
+  return creator?.id ?? null;
+}
+
+/**
+ * Get the origin of a URL, including the origin a blob: URL was created by
+ */
+function getOrigin(url: string | undefined): string {
+  if (!url) {
+    return "";
+  }
+  try {
+    const origin = new URL(url).origin;
+    return origin === "null" ? "" : origin;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Look up a download by ID
+ *
+ * @returns The download, or null if it was removed from the browser's list
+ */
+async function getDownloadItem(id: number): Promise<chrome.downloads.DownloadItem | null> {
+  const [item] = await chrome.downloads.search({ id });
+  return item ?? null;
+}
+
+/**
+ * Wait until a download starts or changes, or the deadline passes
+ *
+ * @returns False if the deadline passed first
+ */
+function waitForChange(deadline: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => done(false), Math.max(0, deadline - Date.now()));
+
+    function listener(): void {
+      done(true);
+    }
+
+    function done(changed: boolean): void {
+      clearTimeout(timer);
+      changeListeners.delete(listener);
+      resolve(changed);
+    }
+
+    changeListeners.add(listener);
+  });
+}
+
+/**
+ * Wake up the waits after a download started or changed
+ */
+function notifyChange(): void {
+  for (const listener of Array.from(changeListeners)) {
+    listener();
+  }
+}
+
+/**
+ * Describe how much of a download has been received
+ */
+function describeProgress(item: chrome.downloads.DownloadItem): string {
+  return item.totalBytes > 0
+    ? `${item.bytesReceived} of ${item.totalBytes} bytes received`
+    : `${item.bytesReceived} bytes received`;
+}
+
+/**
+ * Convert a download item to the protocol's download info
+ */
+function toDownloadInfo(item: chrome.downloads.DownloadItem): DownloadInfo {
+  return {
+    id: item.id,
+    url: item.finalUrl || item.url,
+    filename: item.filename,
+    mimeType: item.mime,
+    state: item.state as DownloadInfo["state"],
+    bytesReceived: item.bytesReceived,
+    totalBytes: item.totalBytes > 0 ? item.totalBytes : undefined,
+    startTime: Date.parse(item.startTime),
+    endTime: item.endTime ? Date.parse(item.endTime) : undefined,
+    error: item.error,
+    exists: item.exists
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * JavaScript evaluation
+ *
+ * Runs an expression or function in the main world of a tab's top frame
+ * through the Chrome debugger, so it sees the page's own globals (app
+ * state, feature flags), and returns the result serialized as JSON.
+ * Runs in the background worker. The MCP server only offers this when it
+ * is explicitly enabled.
+ */
+
+import { sendDebuggerCommand } from "./debugger";
+import { ErrorCode } from "./protocol";
+import type { EvaluateParams, EvaluateResult } from "./protocol";
+
+// Default time to wait for the result, including promises it returns
+export const DEFAULT_EVALUATE_TIMEOUT = 10000;
+
+// Default number of characters of the serialized result returned
+export const DEFAULT_MAX_RESULT_LENGTH = 10000;
+
+// How long the page gets to answer after a timeout before its script is considered stuck
+const BUSY_PROBE_TIMEOUT = 500;
+
+// Groups the remote objects of one evaluation so they can be released together
+const OBJECT_GROUP = "openbrowsermcp-evaluate";
+
+// Serializes a value in the page; `this` is the value. Values JSON cannot
+// represent (functions, DOM nodes, Maps, cycles, ...) are described instead.
+// Only the first maxLength characters are returned, with the full length.
+const SERIALIZE_FUNCTION = `function (maxLength) {
+  const seen = new WeakSet();
+  const json = JSON.stringify(this, function (key, value) {
+    if (typeof value === "bigint") return value + "n";
+    if (typeof value === "symbol") return value.toString();
+    if (typeof value === "function") return "[Function " + (value.name || "anonymous") + "]";
+    if (typeof value === "number" && !Number.isFinite(value)) return String(value);
+    if (value === undefined) return key === "" ? "undefined" : undefined;
+    if (typeof value !== "object" || value === null) return value;
+    if (typeof Node !== "undefined" && value instanceof Node) {
+      return value instanceof Element
+        ? "<" + value.localName + (value.id ? "#" + value.id : "") + ">"
+        : "[" + value.nodeName + "]";
+    }
+    if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+    if (value === window) return "[Window]";
+    if (seen.has(value)) return "[Circular]";
+    seen.add(value);
+    if (value instanceof Map) return { "[[Map]]": Array.from(value.entries()) };
+    if (value instanceof Set) return { "[[Set]]": Array.from(value.values()) };
+    return value;
+  }, 2) ?? "undefined";
+  return { value: json.slice(0, maxLength), length: json.length };
+}`;
+
+interface RemoteObject {
+  type: string;
+  subtype?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  objectId?: string;
+}
+
+interface ExceptionDetails {
+  text: string;
+  lineNumber: number;
+  columnNumber: number;
+  exception?: RemoteObject;
+}
+
+interface EvaluationResponse {
+  result: RemoteObject;
+  exceptionDetails?: ExceptionDetails;
+}
+
+/**
+ * Evaluate an expression in a tab and serialize the result
+ *
+ * An expression that evaluates to a function is called without arguments.
+ * Promises are awaited, and top-level await is allowed.
+ *
+ * @param tabId - Tab to evaluate in
+ * @param params - Expression, result size limit and timeout
+ * @returns The serialized result, or the exception it threw
+ * @throws TIMEOUT if the result is not ready in time; a script still running then is stopped
+ */
+export async function evaluate(tabId: number, params: EvaluateParams): Promise<EvaluateResult> {
+  const timeout = params.timeout ?? DEFAULT_EVALUATE_TIMEOUT;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), timeout);
+  });
+
+  // A stopped script makes the evaluation fail after the timeout was reported
+  const evaluation = evaluateAndSerialize(tabId, params);
+  evaluation.catch(() => {});
+
+  try {
+    const result = await Promise.race([evaluation, timedOut]);
+    if (result) {
+      return result;
+    }
+
+    const stopped = await stopBusyScript(tabId);
+    throw new Error(JSON.stringify({
+      code: ErrorCode.TIMEOUT,
+      message: `Evaluation did not finish within ${timeout}ms${stopped ? "; it kept the page busy and was stopped" : ""}`
+    }));
+  } finally {
+    clearTimeout(timer);
+    sendDebuggerCommand(tabId, "Runtime.releaseObjectGroup", { objectGroup: OBJECT_GROUP }).catch(() => {});
+  }
+}
+
+/**
+ * Stop the script running in a tab if it keeps the page's main thread busy
+ *
+ * An evaluation that is only waiting for a promise leaves the page
+ * responsive, and terminating then would stop the page's next script
+ * instead, so the page is probed first.
+ *
+ * @returns true if a script was stopped
+ */
+async function stopBusyScript(tabId: number): Promise<boolean> {
+  const probe = sendDebuggerCommand(tabId, "Runtime.evaluate", { expression: "0" }).then(() => true, () => true);
+  const unanswered = new Promise<boolean>((resolve) => setTimeout(() => resolve(false), BUSY_PROBE_TIMEOUT));
+  if (await Promise.race([probe, unanswered])) {
+    return false;
+  }
+
+  try {
+    await sendDebuggerCommand(tabId, "Runtime.terminateExecution");
+    return true;
+  } catch (error) {
+    console.error("[Evaluate] Failed to stop script:", error);
+    return false;
+  }
+}
+
+/**
+ * Evaluate the expression, call it if it is a function, and serialize the value
+ */
+async function evaluateAndSerialize(tabId: number, params: EvaluateParams): Promise<EvaluateResult> {
+  let response = await sendDebuggerCommand<EvaluationResponse>(tabId, "Runtime.evaluate", {
+    expression: params.expression,
+    objectGroup: OBJECT_GROUP,
+    awaitPromise: true,
+    replMode: true,
+    userGesture: true
+  });
+
+  if (!response.exceptionDetails && response.result.type === "function") {
+    response = await sendDebuggerCommand<EvaluationResponse>(tabId, "Runtime.callFunctionOn", {
+      objectId: response.result.objectId,
+      functionDeclaration: "function () { return this(); }",
+      objectGroup: OBJECT_GROUP,
+      awaitPromise: true,
+      userGesture: true
+    });
+  }
+
+  if (response.exceptionDetails) {
+    return { exception: describeException(response.exceptionDetails) };
+  }
+
+  const { result } = response;
+  const type = result.subtype ?? result.type;
+  const maxLength = params.maxLength ?? DEFAULT_MAX_RESULT_LENGTH;
+
+  // Objects are serialized and cut off in the page, so only what is returned is transferred
+  let serialized: { value: string; length: number };
+  if (result.objectId) {
+    const serializeResponse = await sendDebuggerCommand<EvaluationResponse>(tabId, "Runtime.callFunctionOn", {
+      objectId: result.objectId,
+      functionDeclaration: SERIALIZE_FUNCTION,
+      arguments: [{ value: maxLength }],
+      returnByValue: true
+    });
+    if (serializeResponse.exceptionDetails) {
+      return { type, exception: `Result could not be serialized: ${describeException(serializeResponse.exceptionDetails)}` };
+    }
+    serialized = serializeResponse.result.value as { value: string; length: number };
+  } else {
+    const json = result.unserializableValue ?? (result.type === "undefined" ? "undefined" : JSON.stringify(result.value));
+    serialized = { value: json.slice(0, maxLength), length: json.length };
+  }
+
+  return {
+    type,
+    value: serialized.value,
+    length: serialized.length,
+    truncated: serialized.length > maxLength ? true : undefined
+  };
+}
+
+/**
+ * Describe an exception: the error with its stack if it is an Error, otherwise the message and location
+ */
+function describeException(details: ExceptionDetails): string {
+  if (details.exception?.description) {
+    return details.exception.description;
+  }
+  const thrown = details.exception?.value !== undefined ? `: ${JSON.stringify(details.exception.value)}` : "";
+  return `${details.text}${thrown} (line ${details.lineNumber + 1}, column ${details.columnNumber + 1})`;
+}
@@ -0,0 +1,379 @@
+/**
+ * Form filling
+ *
+ * Fills several form fields in one request, choosing for each field how a
+ * user would set it: typing into text fields, picking options in selects,
+ * checking checkboxes and radios, and setting date, number and range
+ * inputs directly. Reports per-field results and the validation messages
+ * shown afterwards. Runs in the content script.
+ */
+
+import { clickElement, findElement, typeIntoElement } from "./interactions";
+import type { InteractionOptions } from "./interactions";
+import { setNativeValue } from "./typing";
+import { waitForPage } from "./wait";
+import { ErrorCode } from "./protocol";
+import type { FieldResult, FieldValue, FillFormParams, FillFormResult } from "./protocol";
+
+// Input types whose value is set directly, since they cannot be typed into character by character
+const VALUE_INPUT_TYPES = ["date", "datetime-local", "month", "week", "time", "number", "range", "color"];
+
+// Longest time to wait for the page to react to the new values before reading validation messages
+const SETTLE_TIMEOUT = 1000;
+
+// Most page alerts to report
+const MAX_MESSAGES = 10;
+
+/**
+ * Fill form fields in order
+ *
+ * A field that cannot be filled does not stop the others.
+ *
+ * @param params - Fields with their values, and the input backend
+ * @returns The result of each field and the alerts shown on the page afterwards
+ */
+export async function fillForm(params: FillFormParams): Promise<FillFormResult> {
+  const options: InteractionOptions = { input: params.input };
+  const filled: Array<{ result: FieldResult; element?: Element }> = [];
+
+  for (const field of params.fields) {
+    try {
+      const element = findElement(field.element);
+      const value = await fillField(element, field.value, options);
+      filled.push({ result: { element: field.element, success: true, value }, element });
+    } catch (error) {
+      filled.push({ result: { element: field.element, success: false, error: getErrorMessage(error) } });
+    }
+  }
+
+  // Give validation that runs on input, change or blur time to show its messages
+  await waitForPage({ domStable: true }, SETTLE_TIMEOUT);
+
+  for (const { result, element } of filled) {
+    const validationMessage = element && getValidationMessage(element);
+    if (validationMessage) {
+      result.validationMessage = validationMessage;
+    }
+  }
+
+  return {
+    fields: filled.map(({ result }) => result),
+    messages: getPageMessages()
+  };
+}
+
+/**
+ * Fill one field according to its kind
+ *
+ * @returns The field's value afterwards
+ */
+async function fillField(element: Element, value: FieldValue, options: InteractionOptions): Promise<string> {
+  if (element instanceof HTMLSelectElement) {
+    selectOptions(element, value);
+    return Array.from(element.selectedOptions).map((option) => option.label).join(", ");
+  }
+
+  if (isCheckable(element)) {
+    if (typeof value === "string" && isRadioGroup(element)) {
+      const radio = findRadio(element, value);
+      await setChecked(radio, true, options);
+      return `${getOptionLabel(radio)} selected`;
+    }
+    const checked = toBoolean(value);
+    await setChecked(element, checked, options);
+    return checked ? "checked" : "unchecked";
+  }
+
+  if (isRadioGroup(element)) {
+    const radio = findRadio(element, toText(value));
+    await setChecked(radio, true, options);
+    return `${getOptionLabel(radio)} selected`;
+  }
+
+  if (element instanceof HTMLInputElement && element.type === "file") {
+    throw invalid("File inputs cannot be filled with text; use the upload action of interact");
+  }
+
+  if (element instanceof HTMLInputElement && VALUE_INPUT_TYPES.includes(element.type)) {
+    return setValue(element, toText(value));
+  }
+
+  const text = toText(value);
+  await typeIntoElement(element, text, { ...options, mode: "replace" });
+  commit(element, options);
+
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    return element.value;
+  }
+  return (element as HTMLElement).innerText ?? text;
+}
+
+/**
+ * Select options by value or label; several values select several options of a multiple select
+ */
+function selectOptions(select: HTMLSelectElement, value: FieldValue): void {
+  const wanted = Array.isArray(value) ? value : [toText(value)];
+  if (wanted.length > 1 && !select.multiple) {
+    throw invalid("Only one option can be selected in this select");
+  }
+
+  const options = Array.from(select.options);
+  const matches = wanted.map((text) => {
+    const option = options.find((candidate) => candidate.value === text)
+      ?? options.find((candidate) => candidate.label.trim() === text.trim());
+    if (!option) {
+      const available = options.map((candidate) => JSON.stringify(candidate.label.trim())).slice(0, 20).join(", ");
+      throw invalid(`No option ${JSON.stringify(text)} (options: ${available})`);
+    }
+    if (option.disabled) {
+      throw invalid(`Option ${JSON.stringify(text)} is disabled`);
+    }
+    return option;
+  });
+
+  select.focus();
+  for (const option of options) {
+    option.selected = matches.includes(option);
+  }
+  select.dispatchEvent(new Event("input", { bubbles: true }));
+  select.dispatchEvent(new Event("change", { bubbles: true }));
+  select.blur();
+}
+
+/**
+ * Check or uncheck a checkbox, switch or radio by clicking it, as a user would
+ */
+async function setChecked(element: Element, checked: boolean, options: InteractionOptions): Promise<void> {
+  if (isChecked(element) === checked) {
+    return;
+  }
+  if (isDisabled(element)) {
+    throw invalid("Field is disabled");
+  }
+
+  await clickElement(element, options);
+
+  if (isChecked(element) !== checked) {
+    throw invalid(`Field could not be ${checked ? "checked" : "unchecked"}`);
+  }
+}
+
+/**
+ * Set the value of an input that is not typed into (date, number, range, ...)
+ *
+ * @returns The value afterwards
+ * @throws INVALID_REQUEST if the browser rejected the value as malformed
+ */
+function setValue(input: HTMLInputElement, value: string): string {
+  if (input.disabled || input.readOnly) {
+    throw invalid("Field is disabled or read-only");
+  }
+
+  input.focus();
+  setNativeValue(input, value);
+  input.dispatchEvent(new Event("input", { bubbles: true }));
+  input.dispatchEvent(new Event("change", { bubbles: true }));
+  input.blur();
+
+  // Browsers replace malformed values with an empty string
+  if (value !== "" && input.value === "") {
+    throw invalid(`${JSON.stringify(value)} is not a valid ${input.type} value${getFormatHint(input.type)}`);
+  }
+  return input.value;
+}
+
+/**
+ * Finish editing a text field the way moving to the next field does
+ */
+function commit(element: Element, options: InteractionOptions): void {
+  if (!(element instanceof HTMLElement)) {
+    return;
+  }
+  // Trusted typing gets its change event from the browser on blur
+  if (options.input !== "debugger" && (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
+    element.dispatchEvent(new Event("change", { bubbles: true }));
+  }
+  element.blur();
+}
+
+/**
+ * Find the radio button of a group (or next to a radio) whose value or label matches
+ */
+function findRadio(element: Element, value: string): Element {
+  const radios = getRadios(element);
+  const radio = radios.find((candidate) => candidate instanceof HTMLInputElement && candidate.value === value)
+    ?? radios.find((candidate) => getOptionLabel(candidate) === value.trim());
+
+  if (!radio) {
+    const available = radios.map((candidate) => JSON.stringify(getOptionLabel(candidate))).join(", ");
+    throw invalid(`No radio button ${JSON.stringify(value)} (options: ${available})`);
+  }
+  return radio;
+}
+
+/**
+ * Get the radio buttons of a group, given the group or one of its radios
+ */
+function getRadios(element: Element): Element[] {
+  if (element instanceof HTMLInputElement && element.type === "radio") {
+    if (!element.name) {
+      return [element];
+    }
+    const scope = element.form ?? element.getRootNode() as Document | ShadowRoot;
+    return Array.from(scope.querySelectorAll(`input[type=radio][name="${CSS.escape(element.name)}"]`));
+  }
+  return Array.from(element.querySelectorAll("input[type=radio], [role=radio]"));
+}
+
+/**
+ * Get the label of a radio button or option-like element
+ */
+function getOptionLabel(element: Element): string {
+  const label = element.getAttribute("aria-label")
+    ?? (element instanceof HTMLInputElement && element.labels?.length ? element.labels[0].textContent : null)
+    ?? element.textContent;
+  return (label || (element instanceof HTMLInputElement ? element.value : "")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Check whether an element is a checkbox, switch or radio button
+ */
+function isCheckable(element: Element): boolean {
+  if (element instanceof HTMLInputElement) {
+    return element.type === "checkbox" || element.type === "radio";
+  }
+  return ["checkbox", "switch", "radio", "menuitemcheckbox", "menuitemradio"].includes(element.getAttribute("role") || "");
+}
+
+/**
+ * Check whether an element is a radio button or a group of them
+ */
+function isRadioGroup(element: Element): boolean {
+  if (element instanceof HTMLInputElement) {
+    return element.type === "radio";
+  }
+  const role = element.getAttribute("role");
+  return role === "radio" || role === "radiogroup" || (element.localName === "fieldset" && getRadios(element).length > 0);
+}
+
+/**
+ * Check whether a checkbox, switch or radio is checked
+ */
+function isChecked(element: Element): boolean {
+  if (element instanceof HTMLInputElement) {
+    return element.checked;
+  }
+  return element.getAttribute("aria-checked") === "true";
+}
+
+/**
+ * Check whether a field is disabled natively or through ARIA
+ */
+function isDisabled(element: Element): boolean {
+  return (element as HTMLInputElement).disabled === true || element.getAttribute("aria-disabled") === "true";
+}
+
+/**
+ * Get the validation message shown for a field, from the browser's constraint
+ * validation or from the page (aria-invalid with a described error)
+ */
+function getValidationMessage(element: Element): string | undefined {
+  if ("validity" in element && "validationMessage" in element) {
+    const control = element as HTMLInputElement;
+    if (!control.validity.valid && control.validationMessage) {
+      return control.validationMessage;
+    }
+  }
+
+  if (element.getAttribute("aria-invalid") === "true") {
+    const ids = element.getAttribute("aria-errormessage") || element.getAttribute("aria-describedby") || "";
+    const text = ids.split(/\s+/)
+      .map((id) => (id ? document.getElementById(id)?.textContent : null))
+      .filter(Boolean)
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim();
+    return text || "Marked invalid by the page";
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the text of the alerts visible on the page
+ */
+function getPageMessages(): string[] {
+  const messages = new Set<string>();
+  for (const alert of Array.from(document.querySelectorAll("[role=alert], [aria-live=assertive]"))) {
+    const text = (alert as HTMLElement).innerText?.replace(/\s+/g, " ").trim();
+    if (text) {
+      messages.add(text);
+    }
+  }
+  return Array.from(messages).slice(0, MAX_MESSAGES);
+}
+
+/**
+ * Interpret a value as checked or unchecked
+ */
+function toBoolean(value: FieldValue): boolean {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  const text = toText(value).trim().toLowerCase();
+  if (["true", "on", "yes", "checked", "1"].includes(text)) {
+    return true;
+  }
+  if (["false", "off", "no", "unchecked", "0", ""].includes(text)) {
+    return false;
+  }
+  throw invalid(`Expected true or false for a checkbox, got ${JSON.stringify(value)}`);
+}
+
+/**
+ * Interpret a value as text
+ */
+function toText(value: FieldValue): string {
+  if (Array.isArray(value)) {
+    if (value.length !== 1) {
+      throw invalid("A list of values is only accepted by multiple selects");
+    }
+    return value[0];
+  }
+  return String(value);
+}
+
+/**
+ * Describe the expected format of an input type for error messages
+ */
+function getFormatHint(type: string): string {
+  const formats: Record<string, string> = {
+    "date": "YYYY-MM-DD",
+    "datetime-local": "YYYY-MM-DDThh:mm",
+    "month": "YYYY-MM",
+    "week": "YYYY-Www",
+    "time": "hh:mm",
+    "color": "#rrggbb"
+  };
+  return formats[type] ? ` (expected ${formats[type]})` : "";
+}
+
+/**
+ * Create an INVALID_REQUEST error for a field
+ */
+function invalid(message: string): Error {
+  return new Error(JSON.stringify({ code: ErrorCode.INVALID_REQUEST, message }));
+}
+
+/**
+ * Get the readable message of an error, unwrapping the JSON-encoded protocol errors
+ */
+function getErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const parsed = JSON.parse(message);
+    return typeof parsed.message === "string" ? parsed.message : message;
+  } catch {
+    return message;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Frame-aware snapshots
+ *
+ * The content script runs in every frame. The top frame builds the page
+ * snapshot by asking each iframe's content script (relayed through the
+ * background worker) for its own snapshot and nesting it under the iframe
+ * element. Nested frames do the same, so the whole frame tree is covered,
+ * including cross-origin frames the extension has host permission for.
+ *
+ * Refs of elements inside a frame are qualified with the extension frame ID
+ * ("f12kqwme3" is ref "kqwme3" in frame 12) so the background worker can route
+ * interactions to the right frame.
+ */
+
+import { findElementByRef } from "./aria-snapshot";
+import { offsetFrameMarks } from "./marks";
+import type { AriaElement, AriaSnapshot, Mark } from "./protocol";
+
+// runtime.getFrameId is available to content scripts since Chrome 106, but missing from @types/chrome
+declare global {
+  namespace chrome.runtime {
+    function getFrameId(target: Element | Window): number;
+  }
+}
+
+// How long to wait for a frame's snapshot before leaving it out
+const FRAME_SNAPSHOT_TIMEOUT = 2000;
+
+// Frame-qualified ref: "f", the frame ID, then the ref within that frame
+const FRAME_REF_PATTERN = /^f(\d+)([a-z].*)$/;
+
+/**
+ * Split a frame-qualified ref into its frame ID and frame-local ref.
+ *
+ * @param ref - Ref from a snapshot (e.g. "f12kqwme3" or "kqwme3")
+ * @returns The frame ID and local ref, or null if the ref is not frame-qualified
+ */
+export function parseFrameRef(ref: string): { frameId: number; ref: string } | null {
+  const match = ref.match(FRAME_REF_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return { frameId: parseInt(match[1], 10), ref: match[2] };
+}
+
+/**
+ * Add the snapshots of child frames to a frame's snapshot.
+ *
+ * Each iframe element is followed by the elements of its document, nested
+ * one level deeper. Frames that do not answer in time (no content script,
+ * still loading) are left empty. If the snapshot has marks, the marks of
+ * the child frames are added too, moved to where the frames are.
+ *
+ * @param snapshot - Snapshot of the current frame
+ * @returns Snapshot including the elements of all descendant frames
+ */
+export async function includeChildFrames(snapshot: AriaSnapshot): Promise<AriaSnapshot> {
+  const elements: AriaElement[] = [];
+  const marks: Mark[] | undefined = snapshot.marks && [...snapshot.marks];
+
+  for (const element of snapshot.elements) {
+    elements.push(element);
+
+    if (element.role !== "iframe") {
+      continue;
+    }
+
+    const iframe = findElementByRef(element.ref);
+    const frameId = iframe ? getFrameId(iframe) : null;
+    if (!iframe || frameId === null) {
+      continue;
+    }
+
+    const frameSnapshot = await requestFrameSnapshot(frameId, marks !== undefined);
+    if (!frameSnapshot) {
+      continue;
+    }
+
+    for (const child of frameSnapshot.elements) {
+      elements.push({
+        ...child,
+        ref: qualifyRef(child.ref, frameId),
+        parent: child.parent ? qualifyRef(child.parent, frameId) : element.ref,
+        depth: element.depth + 1 + child.depth
+      });
+    }
+
+    if (marks && frameSnapshot.marks) {
+      for (const mark of offsetFrameMarks(iframe, frameSnapshot.marks)) {
+        marks.push({ ...mark, ref: qualifyRef(mark.ref, frameId) });
+      }
+    }
+  }
+
+  return { ...snapshot, elements, marks };
+}
+
+/**
+ * Qualify a ref with a frame ID, unless it already belongs to a nested frame.
+ */
+export function qualifyRef(ref: string, frameId: number): string {
+  return FRAME_REF_PATTERN.test(ref) ? ref : `f${frameId}${ref}`;
+}
+
+/**
+ * Get the extension frame ID of the frame an iframe element hosts.
+ */
+function getFrameId(iframe: Element): number | null {
+  const frameId = chrome.runtime.getFrameId(iframe);
+  return frameId >= 0 ? frameId : null;
+}
+
+/**
+ * Ask a child frame's content script for its snapshot via the background worker.
+ */
+async function requestFrameSnapshot(frameId: number, marks: boolean): Promise<AriaSnapshot | null> {
+  const request = chrome.runtime.sendMessage({ type: "FRAME_SNAPSHOT", frameId, marks })
+    .then((response) => (response?.snapshot as AriaSnapshot) || null)
+    .catch(() => null);
+
+  const timeout = new Promise<null>((resolve) => {
+    setTimeout(() => resolve(null), FRAME_SNAPSHOT_TIMEOUT);
+  });
+
+  return Promise.race([request, timeout]);
+}
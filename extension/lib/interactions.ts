@@ -1,31 +1,36 @@
 /**
  * Browser interaction implementations
  *
- * Provides functions for clicking, typing, hovering, selecting, and pressing keys
- * using different element selection strategies.
+ * Provides functions for clicking, typing, hovering, selecting, pressing keys,
+ * uploading files and dragging using different element selection strategies.
+ *
+ * Input is delivered as synthetic DOM events by default. With the "debugger"
+ * input backend, clicks, hovers, typing, key presses and drags of elements
+ * that are not HTML5-draggable are sent as trusted input by the background
+ * worker instead, falling back to synthetic events if the debugger is
+ * unavailable.
  */
 
 import { ElementSelector, ErrorCode } from "./protocol";
-import { findElementByRef } from "./aria-snapshot";
+import type { InputBackend, TrustedInput, UploadFile } from "./protocol";
+import { findElementByRef, getStaleRefReason } from "./aria-snapshot";
+import { typeText, getEffectiveMode, setNativeValue, type TypeOptions } from "./typing";
+import { MODIFIERS, parseKeyChord, type KeyChord, type Modifier } from "./keys";
 
 /**
  * Find an element using the provided selector
  */
 export function findElement(selector: ElementSelector): Element {
-  let elements: Element[] = [];
-
-  if ("ref" in selector) {
-    // Find by ARIA snapshot reference
-    const element = findElementByRef(selector.ref);
-    if (element) {
-      elements = [element];
+  const elements = findElements(selector);
+
+  if (elements.length === 0 && "ref" in selector) {
+    const staleReason = getStaleRefReason(selector.ref);
+    if (staleReason) {
+      throw new Error(JSON.stringify({
+        code: ErrorCode.STALE_REF,
+        message: `${staleReason}. Take a new snapshot to get current refs.`
+      }));
     }
-  } else if ("css" in selector) {
-    // Find by CSS selector
-    elements = Array.from(document.querySelectorAll(selector.css));
-  } else if ("role" in selector) {
-    // Find by ARIA role and optional name
-    elements = findByRole(selector.role, selector.name);
   }
 
   if (elements.length === 0) {
@@ -45,6 +50,29 @@ export function findElement(selector: ElementSelector): Element {
   return elements[0];
 }
 
+/**
+ * Find all elements matching the provided selector
+ */
+export function findElements(selector: ElementSelector): Element[] {
+  if ("ref" in selector) {
+    // Find by ARIA snapshot reference
+    const element = findElementByRef(selector.ref);
+    return element ? [element] : [];
+  }
+
+  if ("css" in selector) {
+    // Find by CSS selector
+    return Array.from(document.querySelectorAll(selector.css));
+  }
+
+  if ("role" in selector) {
+    // Find by ARIA role and optional name
+    return findByRole(selector.role, selector.name);
+  }
+
+  return [];
+}
+
 /**
  * Find elements by ARIA role and optional name
  */
@@ -143,68 +171,114 @@ function getAccessibleName(element: Element): string {
   return element.textContent?.trim() || "";
 }
 
+/**
+ * Options shared by all interactions
+ */
+export interface InteractionOptions {
+  input?: InputBackend;
+}
+
 /**
  * Click on an element
  */
-export async function click(selector: ElementSelector): Promise<void> {
-  const element = findElement(selector);
+export async function click(selector: ElementSelector, options: InteractionOptions = {}): Promise<void> {
+  await clickElement(findElement(selector), options);
+
+  // Wait a bit for any resulting navigation or state changes
+  await waitForStability();
+}
 
+/**
+ * Click on an element that has been found already, without waiting for the result
+ */
+export async function clickElement(element: Element, options: InteractionOptions = {}): Promise<void> {
   // Ensure element is visible
   ensureVisible(element);
 
+  if (options.input === "debugger" && await dispatchTrustedPointer("click", element)) {
+    return;
+  }
+
   // Simulate click with mouse events
   element.dispatchEvent(new MouseEvent("mousedown", { bubbles: true, cancelable: true }));
   element.dispatchEvent(new MouseEvent("mouseup", { bubbles: true, cancelable: true }));
-  element.dispatchEvent(new MouseEvent("click", { bubbles: true, cancelable: true }));
+  const clickAllowed = element.dispatchEvent(new MouseEvent("click", { bubbles: true, cancelable: true }));
 
-  // For buttons and links, also trigger the default action
-  if (element instanceof HTMLElement) {
+  // For native buttons and links, also trigger the default action, unless the page
+  // canceled the click. Checkable elements, native or ARIA, have already toggled on
+  // the dispatched click, and a second click would undo it
+  if (clickAllowed && element instanceof HTMLElement && isNativeLinkOrButton(element) && !isCheckable(element)) {
     element.click();
   }
+}
 
-  // Wait a bit for any resulting navigation or state changes
-  await waitForStability();
+// Roles of elements a click checks or unchecks
+const CHECKABLE_ROLES = ["checkbox", "switch", "radio", "menuitemcheckbox", "menuitemradio"];
+
+/**
+ * Check whether an element is a checkbox, switch or radio button, native or through ARIA
+ */
+function isCheckable(element: Element): boolean {
+  return CHECKABLE_ROLES.includes(getElementRole(element) ?? "");
+}
+
+/**
+ * Check whether an element is a native link or button, or inside one
+ */
+function isNativeLinkOrButton(element: Element): boolean {
+  return element.closest("a[href], button, input[type=submit], input[type=reset], input[type=button], input[type=image]") !== null;
 }
 
 /**
  * Type text into an element
  */
-export async function type(selector: ElementSelector, text: string): Promise<void> {
-  const element = findElement(selector);
+export async function type(
+  selector: ElementSelector,
+  text: string,
+  options: InteractionOptions & TypeOptions = {}
+): Promise<void> {
+  await typeIntoElement(findElement(selector), text, options);
+  await waitForStability();
+}
 
+/**
+ * Type text into an element that has been found already, without waiting afterwards
+ */
+export async function typeIntoElement(
+  element: Element,
+  text: string,
+  options: InteractionOptions & TypeOptions = {}
+): Promise<void> {
   // Ensure element is visible and focusable
   ensureVisible(element);
 
-  // Focus the element
-  if (element instanceof HTMLElement) {
-    element.focus();
+  if (options.input === "debugger" && await typeTrusted(element, text, options)) {
+    return;
   }
 
-  // For input elements, set the value
-  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-    element.value = text;
-
-    // Trigger input and change events
-    element.dispatchEvent(new InputEvent("input", { bubbles: true, cancelable: true }));
-    element.dispatchEvent(new Event("change", { bubbles: true, cancelable: true }));
-  } else {
-    // For content-editable, set text content
-    if (element instanceof HTMLElement && element.isContentEditable) {
-      element.textContent = text;
-    }
+  // Type character by character with realistic events
+  const typed = await typeText(element, text, options);
+  if (!typed) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "Type action requires an input, textarea or contenteditable element"
+    }));
   }
-
-  await waitForStability();
 }
 
 /**
  * Hover over an element
  */
-export async function hover(selector: ElementSelector): Promise<void> {
+export async function hover(selector: ElementSelector, options: InteractionOptions = {}): Promise<void> {
   const element = findElement(selector);
 
   ensureVisible(element);
 
+  if (options.input === "debugger" && await dispatchTrustedPointer("hover", element)) {
+    await waitForStability();
+    return;
+  }
+
   // Dispatch mouse events
   element.dispatchEvent(new MouseEvent("mouseover", { bubbles: true, cancelable: true }));
   element.dispatchEvent(new MouseEvent("mouseenter", { bubbles: true, cancelable: true }));
@@ -238,47 +312,594 @@ export async function select(selector: ElementSelector, value: string): Promise<
 }
 
 /**
- * Press a keyboard key
+ * Upload files through a file input, or by dropping them on a drop zone
+ *
+ * A file input inside the element is used if there is one, since drop
+ * zones usually wrap a hidden input. Otherwise the files are dropped on
+ * the element with drag events.
  */
-export async function press(key: string): Promise<void> {
-  // Focus the active element or body
-  const target = document.activeElement || document.body;
+export async function upload(selector: ElementSelector, files: UploadFile[]): Promise<void> {
+  const element = findElement(selector);
+  const input = element instanceof HTMLInputElement ? element : element.querySelector("input[type=file]");
 
-  // Dispatch keyboard events
-  target.dispatchEvent(new KeyboardEvent("keydown", {
-    key,
-    bubbles: true,
-    cancelable: true
-  }));
+  const dataTransfer = new DataTransfer();
+  for (const file of files) {
+    dataTransfer.items.add(toFile(file));
+  }
+
+  if (input instanceof HTMLInputElement) {
+    if (input.type !== "file") {
+      throw new Error(JSON.stringify({
+        code: ErrorCode.INVALID_REQUEST,
+        message: "Upload action requires a file input or a drop zone"
+      }));
+    }
+    if (input.disabled) {
+      throw new Error(JSON.stringify({
+        code: ErrorCode.INVALID_REQUEST,
+        message: "File input is disabled"
+      }));
+    }
+    if (files.length > 1 && !input.multiple) {
+      throw new Error(JSON.stringify({
+        code: ErrorCode.INVALID_REQUEST,
+        message: `File input accepts a single file, got ${files.length}`
+      }));
+    }
+
+    input.files = dataTransfer.files;
+    input.dispatchEvent(new Event("input", { bubbles: true, composed: true }));
+    input.dispatchEvent(new Event("change", { bubbles: true }));
+  } else {
+    ensureVisible(element);
+    const rect = element.getBoundingClientRect();
+    const init = {
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      dataTransfer,
+      clientX: rect.left + rect.width / 2,
+      clientY: rect.top + rect.height / 2
+    };
+    element.dispatchEvent(new DragEvent("dragenter", init));
+    element.dispatchEvent(new DragEvent("dragover", init));
+    element.dispatchEvent(new DragEvent("drop", init));
+  }
+
+  await waitForStability();
+}
+
+/**
+ * Turn a file sent by the server into a File
+ */
+function toFile(file: UploadFile): File {
+  const binary = atob(file.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], file.name, { type: file.mimeType, lastModified: file.lastModified });
+}
+
+// Number of pointer moves between leaving the start point and reaching the end of a drag
+const DRAG_STEPS = 10;
+
+// Pixels moved before the rest of a drag, past the thresholds libraries use to tell drags from clicks
+const DRAG_START_DISTANCE = 10;
+
+// Milliseconds between moves, so libraries that track the pointer once per frame see each one
+const DRAG_STEP_DELAY = 16;
+
+type Point = { x: number; y: number };
+
+/**
+ * Drag an element onto another element, or by an offset
+ *
+ * The button is pressed on the source and the pointer moved in steps to
+ * the end point with pointer and mouse events, which is what libraries
+ * built on them (react-beautiful-dnd, dnd-kit, sliders) respond to. If the
+ * source is draggable (HTML5 drag and drop, e.g. SortableJS), dragstart,
+ * dragenter/dragover along the way and drop follow the first move instead,
+ * with a shared DataTransfer, as the browser does. Untrusted pointer events
+ * do not move a native range input, so its value is set to the one under
+ * the end point, with input and change events.
+ *
+ * @throws INVALID_REQUEST if neither a target nor an offset is given, or an HTML5 target did not accept the drop
+ */
+export async function drag(
+  selector: ElementSelector,
+  destination: { target?: ElementSelector; offset?: Point },
+  options: InteractionOptions = {}
+): Promise<void> {
+  const source = findElement(selector);
+  const target = destination.target ? findElement(destination.target) : null;
+  if (!target && !destination.offset) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "Drag action requires a target element or an offset"
+    }));
+  }
+
+  ensureVisible(source);
+  const start = getCenter(source);
+  const end = target ? getCenter(target) : { x: start.x + destination.offset!.x, y: start.y + destination.offset!.y };
+  const draggable = getDraggable(source);
 
-  target.dispatchEvent(new KeyboardEvent("keypress", {
-    key,
+  // The debugger cannot drive the browser's own drag and drop, so HTML5 drags stay synthetic
+  if (options.input === "debugger" && !draggable && await dispatchTrustedDrag(source, start, end)) {
+    await waitForStability();
+    return;
+  }
+
+  dispatchPointer("down", source, start);
+
+  // Leave the start point first: a drag only starts once the pointer has moved a few pixels
+  const distance = Math.hypot(end.x - start.x, end.y - start.y);
+  const from = distance > DRAG_START_DISTANCE
+    ? {
+        x: start.x + (end.x - start.x) * DRAG_START_DISTANCE / distance,
+        y: start.y + (end.y - start.y) * DRAG_START_DISTANCE / distance
+      }
+    : { x: start.x + DRAG_START_DISTANCE, y: start.y };
+  dispatchPointer("move", source, from);
+  await sleep(DRAG_STEP_DELAY);
+
+  if (draggable) {
+    const dataTransfer = new DataTransfer();
+    const started = draggable.dispatchEvent(new DragEvent("dragstart", getDragEventInit(start, dataTransfer)));
+    if (started) {
+      await dragAndDrop(draggable, target, from, end, dataTransfer);
+      await waitForStability();
+      return;
+    }
+    // A canceled dragstart leaves the drag to pointer and mouse events
+  }
+
+  for (let step = 1; step <= DRAG_STEPS; step++) {
+    const point = interpolate(from, end, step / DRAG_STEPS);
+    dispatchPointer("move", getElementAt(point) ?? target ?? source, point);
+    await sleep(DRAG_STEP_DELAY);
+  }
+  const rangeChanged = source instanceof HTMLInputElement && source.type === "range"
+    && setRangeValueAt(source, end);
+  dispatchPointer("up", getElementAt(end) ?? target ?? source, end);
+  if (rangeChanged) {
+    source.dispatchEvent(new Event("change", { bubbles: true }));
+  }
+
+  await waitForStability();
+}
+
+/**
+ * Set a range input to the value at a point along its track, as dragging
+ * the thumb there would, and fire input if the value changed
+ *
+ * The track runs from left to right (right to left in RTL), or from bottom
+ * to top when the input is taller than wide. The browser rounds the value
+ * to the input's step.
+ *
+ * @returns Whether the value changed
+ */
+function setRangeValueAt(input: HTMLInputElement, point: Point): boolean {
+  if (input.disabled) {
+    return false;
+  }
+
+  const rect = input.getBoundingClientRect();
+  let fraction = rect.height > rect.width
+    ? (rect.bottom - point.y) / rect.height
+    : (point.x - rect.left) / rect.width;
+  if (rect.height <= rect.width && getComputedStyle(input).direction === "rtl") {
+    fraction = 1 - fraction;
+  }
+
+  const min = parseFloat(input.min);
+  const max = parseFloat(input.max);
+  const low = isNaN(min) ? 0 : min;
+  const high = isNaN(max) ? 100 : max;
+  const previous = input.value;
+  setNativeValue(input, String(low + Math.min(Math.max(fraction, 0), 1) * (high - low)));
+  if (input.value === previous) {
+    return false;
+  }
+  input.dispatchEvent(new Event("input", { bubbles: true }));
+  return true;
+}
+
+/**
+ * Move an HTML5 drag to the end point and drop it there
+ *
+ * Follows the browser's sequence: drag on the source and dragenter,
+ * dragleave and dragover on the elements under the pointer at each step,
+ * then drop if the last dragover was canceled (which is how drop targets
+ * accept a drop), and dragend on the source.
+ */
+async function dragAndDrop(
+  source: Element,
+  target: Element | null,
+  from: Point,
+  to: Point,
+  dataTransfer: DataTransfer
+): Promise<void> {
+  let over: Element | null = null;
+  let accepted = false;
+
+  for (let step = 1; step <= DRAG_STEPS; step++) {
+    const point = interpolate(from, to, step / DRAG_STEPS);
+    let element = getElementAt(point);
+    // The target may be out of view; it is the element under the pointer at the end
+    if (step === DRAG_STEPS && target && !(element && target.contains(element))) {
+      element = target;
+    }
+
+    source.dispatchEvent(new DragEvent("drag", getDragEventInit(point, dataTransfer)));
+    if (element !== over) {
+      element?.dispatchEvent(new DragEvent("dragenter", getDragEventInit(point, dataTransfer)));
+      over?.dispatchEvent(new DragEvent("dragleave", getDragEventInit(point, dataTransfer)));
+      over = element;
+    }
+    accepted = over ? !over.dispatchEvent(new DragEvent("dragover", getDragEventInit(point, dataTransfer))) : false;
+    await sleep(DRAG_STEP_DELAY);
+  }
+
+  if (over && accepted) {
+    over.dispatchEvent(new DragEvent("drop", getDragEventInit(to, dataTransfer)));
+  } else {
+    dataTransfer.dropEffect = "none";
+    over?.dispatchEvent(new DragEvent("dragleave", getDragEventInit(to, dataTransfer)));
+  }
+  source.dispatchEvent(new DragEvent("dragend", getDragEventInit(to, dataTransfer)));
+
+  if (!accepted) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: "The element under the drop point does not accept drops"
+    }));
+  }
+}
+
+/**
+ * Drag with trusted mouse input from one point to another
+ *
+ * The points are in the element's frame; the offset of the frame in the
+ * top-level viewport is added.
+ */
+async function dispatchTrustedDrag(source: Element, start: Point, end: Point): Promise<boolean> {
+  const point = getViewportPoint(source);
+  if (!point) {
+    return false;
+  }
+  const offsetX = point.x - start.x;
+  const offsetY = point.y - start.y;
+  return dispatchTrusted({ kind: "drag", x: point.x, y: point.y, toX: end.x + offsetX, toY: end.y + offsetY });
+}
+
+/**
+ * Dispatch the pointer event and the matching mouse event of a left-button press, move or release
+ */
+function dispatchPointer(phase: "down" | "move" | "up", element: Element, point: Point): void {
+  const init = {
     bubbles: true,
-    cancelable: true
+    cancelable: true,
+    composed: true,
+    view: window,
+    clientX: point.x,
+    clientY: point.y,
+    button: phase === "move" ? -1 : 0,
+    buttons: phase === "up" ? 0 : 1
+  };
+  element.dispatchEvent(new PointerEvent(`pointer${phase}`, {
+    ...init,
+    pointerId: 1,
+    pointerType: "mouse",
+    isPrimary: true
   }));
+  element.dispatchEvent(new MouseEvent(`mouse${phase}`, { ...init, button: Math.max(init.button, 0) }));
+}
 
-  target.dispatchEvent(new KeyboardEvent("keyup", {
-    key,
+/**
+ * Get the init dictionary of a drag event at a point
+ */
+function getDragEventInit(point: Point, dataTransfer: DataTransfer): DragEventInit {
+  return {
     bubbles: true,
-    cancelable: true
-  }));
+    cancelable: true,
+    composed: true,
+    view: window,
+    clientX: point.x,
+    clientY: point.y,
+    buttons: 1,
+    dataTransfer
+  };
+}
+
+/**
+ * Get the element, or its ancestor, that the browser would drag with HTML5 drag and drop
+ *
+ * Links and images are draggable by default; draggable="false" opts out.
+ */
+function getDraggable(element: Element): HTMLElement | null {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    if (current instanceof HTMLElement && current.draggable) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the topmost element at a point in the frame's viewport
+ */
+function getElementAt(point: Point): Element | null {
+  return document.elementFromPoint(point.x, point.y);
+}
+
+/**
+ * Get the center of an element in the frame's viewport
+ */
+function getCenter(element: Element): Point {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+}
+
+/**
+ * Get the point a fraction of the way from one point to another
+ */
+function interpolate(from: Point, to: Point, fraction: number): Point {
+  return { x: from.x + (to.x - from.x) * fraction, y: from.y + (to.y - from.y) * fraction };
+}
+
+/**
+ * Wait between the steps of a drag
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Press a keyboard key
+ */
+export async function press(key: string, options: InteractionOptions & PressOptions = {}): Promise<void> {
+  let chord: KeyChord;
+  try {
+    chord = parseKeyChord(key);
+  } catch (error) {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: error instanceof Error ? error.message : String(error)
+    }));
+  }
+
+  // Focus the target element first, if one was given
+  let element: Element | null = null;
+  if (options.element) {
+    element = findElement(options.element);
+    ensureVisible(element);
+    if (element instanceof HTMLElement) {
+      element.focus();
+    }
+  }
+
+  const repeat = Math.max(1, options.repeat ?? 1);
+
+  // Presses delivered as trusted input; the fallback sends only the rest
+  let pressed = 0;
+  if (options.input === "debugger") {
+    while (pressed < repeat && await dispatchTrusted({ kind: "key", key })) {
+      pressed++;
+    }
+  }
+
+  // Send keys to the focused element, or to the target if it could not take focus
+  const focused = document.activeElement;
+  const target = element && focused !== element ? element : focused || document.body;
+
+  for (let i = pressed; i < repeat; i++) {
+    dispatchKeyChord(target, chord);
+  }
 
   await waitForStability();
 }
 
+/**
+ * Options for the press action
+ */
+export interface PressOptions {
+  element?: ElementSelector; // Element to focus before pressing
+  repeat?: number;           // Number of times to press the chord (default 1)
+}
+
+// KeyboardEvent flag set while each modifier is held
+const MODIFIER_FLAGS: Record<Modifier, "altKey" | "ctrlKey" | "metaKey" | "shiftKey"> = {
+  Alt: "altKey",
+  Control: "ctrlKey",
+  Meta: "metaKey",
+  Shift: "shiftKey"
+};
+
+/**
+ * Dispatch the keyboard events for one key chord
+ *
+ * Modifiers are pressed in order, then the key is pressed and released,
+ * then the modifiers are released in reverse order. Every event carries
+ * the modifier flags held at that moment.
+ */
+function dispatchKeyChord(target: Element, chord: KeyChord): void {
+  const flags = { altKey: false, ctrlKey: false, metaKey: false, shiftKey: false };
+
+  const keyEvent = (type: string, key: string, code: string, keyCode: number) =>
+    target.dispatchEvent(new KeyboardEvent(type, {
+      key,
+      code,
+      keyCode,
+      which: keyCode,
+      ...flags,
+      bubbles: true,
+      cancelable: true,
+      composed: true
+    }));
+
+  for (const modifier of chord.modifiers) {
+    flags[MODIFIER_FLAGS[modifier]] = true;
+    keyEvent("keydown", modifier, MODIFIERS[modifier].code, MODIFIERS[modifier].keyCode);
+  }
+
+  const { key, code, keyCode, text } = chord.key;
+  const allowed = keyEvent("keydown", key, code, keyCode);
+
+  // keypress is only fired for keys that produce text, and not for shortcuts
+  if (allowed && text && !flags.ctrlKey && !flags.metaKey && !flags.altKey) {
+    keyEvent("keypress", key, code, keyCode);
+  }
+
+  keyEvent("keyup", key, code, keyCode);
+
+  for (const modifier of [...chord.modifiers].reverse()) {
+    flags[MODIFIER_FLAGS[modifier]] = false;
+    keyEvent("keyup", modifier, MODIFIERS[modifier].code, MODIFIERS[modifier].keyCode);
+  }
+}
+
 /**
  * Ensure an element is visible by scrolling it into view
+ *
+ * Scrolling is instant so that coordinates measured afterwards are current.
  */
 function ensureVisible(element: Element): void {
   if (element instanceof HTMLElement) {
     element.scrollIntoView({
-      behavior: "smooth",
+      behavior: "auto",
       block: "center",
       inline: "center"
     });
   }
 }
 
+/**
+ * Ask the background worker to dispatch trusted input via the debugger
+ *
+ * @returns true if the input was dispatched, false if the caller should fall back to synthetic events
+ */
+async function dispatchTrusted(input: TrustedInput): Promise<boolean> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: "TRUSTED_INPUT", input });
+    return response?.success === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Click or hover at the center of an element with trusted input
+ */
+async function dispatchTrustedPointer(kind: "click" | "hover", element: Element): Promise<boolean> {
+  const point = getViewportPoint(element);
+  if (!point) {
+    return false;
+  }
+  return dispatchTrusted({ kind, ...point });
+}
+
+/**
+ * Type into an element with trusted text input
+ *
+ * The existing content is selected first (or the caret moved to the end
+ * when appending) so the inserted text replaces or extends it, which keeps
+ * editor and framework state in sync. In "clear" mode the selection is
+ * deleted with a Backspace press before typing.
+ */
+async function typeTrusted(element: Element, text: string, options: TypeOptions): Promise<boolean> {
+  const { delay = 0 } = options;
+  const mode = getEffectiveMode(text, options.mode);
+
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    element.focus();
+    const end = element.value.length;
+    try {
+      element.setSelectionRange(mode === "append" ? end : 0, end);
+    } catch {
+      // Selection is not supported for this input type (e.g. email)
+      element.select();
+    }
+  } else if (element instanceof HTMLElement && element.isContentEditable) {
+    element.focus();
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    if (mode === "append") {
+      range.collapse(false);
+    }
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  } else {
+    return false;
+  }
+
+  if (mode === "clear" && !await dispatchTrusted({ kind: "key", key: "Backspace" })) {
+    return false;
+  }
+
+  // Without a delay the text is inserted in one go
+  if (delay <= 0) {
+    return dispatchTrusted({ kind: "insertText", text });
+  }
+
+  for (const char of text) {
+    if (!await dispatchTrusted({ kind: "insertText", text: char })) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+  return true;
+}
+
+/**
+ * Get the center of an element in top-level viewport coordinates
+ *
+ * Returns null inside cross-origin frames, whose position in the top-level
+ * page cannot be determined.
+ */
+function getViewportPoint(element: Element): { x: number; y: number } | null {
+  const rect = getViewportRect(element);
+  if (!rect) {
+    return null;
+  }
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+/**
+ * Get the bounding box of an element in top-level viewport coordinates
+ *
+ * Inside iframes, the offsets of all enclosing frame elements are added.
+ * Returns null inside cross-origin frames, whose position in the top-level
+ * page cannot be determined.
+ */
+export function getViewportRect(element: Element): { x: number; y: number; width: number; height: number } | null {
+  const rect = element.getBoundingClientRect();
+  let x = rect.left;
+  let y = rect.top;
+
+  let currentWindow: Window = window;
+  while (currentWindow !== currentWindow.parent) {
+    let frameElement: Element | null;
+    try {
+      frameElement = currentWindow.frameElement;
+    } catch {
+      frameElement = null;
+    }
+    if (!frameElement) {
+      return null;
+    }
+
+    const frameRect = frameElement.getBoundingClientRect();
+    x += frameRect.left + frameElement.clientLeft;
+    y += frameRect.top + frameElement.clientTop;
+    currentWindow = currentWindow.parent;
+  }
+
+  return { x, y, width: rect.width, height: rect.height };
+}
+
 /**
  * Wait for DOM stability after an interaction
  */
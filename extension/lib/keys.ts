@@ -0,0 +1,147 @@
+/**
+ * Keyboard key definitions
+ *
+ * Maps key names (as used by KeyboardEvent.key, e.g. "Enter", "ArrowDown",
+ * "a") to the code, legacy keyCode and inserted text that real key presses
+ * produce, for both synthetic events and DevTools Protocol input.
+ *
+ * Also parses Playwright-style chords such as "Control+Shift+K".
+ */
+
+export interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string; // Text inserted by the key, if any
+}
+
+export type Modifier = "Alt" | "Control" | "Meta" | "Shift";
+
+export interface KeyChord {
+  modifiers: Modifier[];  // Modifiers held while pressing the key, in press order
+  key: KeyDefinition;
+}
+
+// Modifier keys, and their bit in DevTools Protocol `modifiers`
+export const MODIFIERS: Record<Modifier, Omit<KeyDefinition, "key"> & { bit: number }> = {
+  Alt: { code: "AltLeft", keyCode: 18, bit: 1 },
+  Control: { code: "ControlLeft", keyCode: 17, bit: 2 },
+  Meta: { code: "MetaLeft", keyCode: 91, bit: 4 },
+  Shift: { code: "ShiftLeft", keyCode: 16, bit: 8 }
+};
+
+// Named keys that do not map to a single printable character
+const NAMED_KEYS: Record<string, Omit<KeyDefinition, "key">> = {
+  Enter: { code: "Enter", keyCode: 13, text: "\r" },
+  Tab: { code: "Tab", keyCode: 9 },
+  Escape: { code: "Escape", keyCode: 27 },
+  Backspace: { code: "Backspace", keyCode: 8 },
+  Delete: { code: "Delete", keyCode: 46 },
+  ArrowUp: { code: "ArrowUp", keyCode: 38 },
+  ArrowDown: { code: "ArrowDown", keyCode: 40 },
+  ArrowLeft: { code: "ArrowLeft", keyCode: 37 },
+  ArrowRight: { code: "ArrowRight", keyCode: 39 },
+  Home: { code: "Home", keyCode: 36 },
+  End: { code: "End", keyCode: 35 },
+  PageUp: { code: "PageUp", keyCode: 33 },
+  PageDown: { code: "PageDown", keyCode: 34 },
+  " ": { code: "Space", keyCode: 32, text: " " },
+  Insert: { code: "Insert", keyCode: 45 },
+  ...functionKeys()
+};
+
+/**
+ * Get the definition of a key
+ *
+ * @param key - Key name (e.g. "Enter") or a single character (e.g. "a")
+ * @returns The key's code, keyCode and inserted text
+ */
+export function getKeyDefinition(key: string): KeyDefinition {
+  // Accept the name of the space bar as well as its key value
+  if (key === "Space") {
+    key = " ";
+  }
+
+  const named = NAMED_KEYS[key];
+  if (named) {
+    return { key, ...named };
+  }
+
+  if (key.length === 1) {
+    return { key, ...getCharacterKey(key) };
+  }
+
+  // Modifier pressed on its own (e.g. "Shift")
+  if (key in MODIFIERS) {
+    const { code, keyCode } = MODIFIERS[key as Modifier];
+    return { key, code, keyCode };
+  }
+
+  // Unknown named key: pass it through without a keyCode
+  return { key, code: key, keyCode: 0 };
+}
+
+/**
+ * Parse a key chord such as "Control+Shift+K", "Shift+Tab" or "Enter"
+ *
+ * "ControlOrMeta" resolves to Meta on macOS and Control elsewhere. With
+ * Shift held, a single letter is reported as its uppercase key.
+ *
+ * @param chord - Modifiers and key joined by "+"
+ * @returns The modifiers in press order and the main key
+ * @throws Error if a part before the last is not a modifier
+ */
+export function parseKeyChord(chord: string): KeyChord {
+  // Split on "+" but keep a literal "+" key (e.g. "Control++")
+  const parts = chord.split(/\+(?!$)/);
+  const keyName = parts.pop()!;
+
+  const modifiers = parts.map((part): Modifier => {
+    const name = part === "ControlOrMeta" ? (isMac() ? "Meta" : "Control") : part;
+    if (!(name in MODIFIERS)) {
+      throw new Error(`Unknown modifier "${part}" in key chord "${chord}"`);
+    }
+    return name as Modifier;
+  });
+
+  const key = modifiers.includes("Shift") && keyName.length === 1
+    ? keyName.toUpperCase()
+    : keyName;
+
+  return { modifiers, key: getKeyDefinition(key) };
+}
+
+/**
+ * Check whether the browser runs on macOS, where shortcuts use Meta
+ */
+function isMac(): boolean {
+  return /Mac/.test(navigator.platform || navigator.userAgent);
+}
+
+/**
+ * Definitions for F1-F12
+ */
+function functionKeys(): Record<string, Omit<KeyDefinition, "key">> {
+  const keys: Record<string, Omit<KeyDefinition, "key">> = {};
+  for (let i = 1; i <= 12; i++) {
+    keys[`F${i}`] = { code: `F${i}`, keyCode: 111 + i };
+  }
+  return keys;
+}
+
+/**
+ * Get the code and keyCode of a printable character on a US keyboard
+ */
+function getCharacterKey(char: string): Omit<KeyDefinition, "key"> {
+  const upper = char.toUpperCase();
+
+  if (upper >= "A" && upper <= "Z") {
+    return { code: `Key${upper}`, keyCode: upper.charCodeAt(0), text: char };
+  }
+
+  if (char >= "0" && char <= "9") {
+    return { code: `Digit${char}`, keyCode: char.charCodeAt(0), text: char };
+  }
+
+  return { code: "", keyCode: 0, text: char };
+}
@@ -0,0 +1,391 @@
+/**
+ * Page text as Markdown
+ *
+ * Converts the main content of the page, or one element, into Markdown so
+ * agents can read what the ARIA snapshot leaves out: paragraphs, article
+ * bodies, messages and snippets. Links carry their refs so they can be
+ * clicked afterwards. Runs in the content script.
+ */
+
+import { findElement } from "./interactions";
+import { getChildren, getOrCreateRef } from "./aria-snapshot";
+import { qualifyRef } from "./frames";
+import type { GetTextParams, GetTextResult } from "./protocol";
+
+// Default number of characters returned per call
+export const DEFAULT_MAX_LENGTH = 20000;
+
+// Elements that never contain readable text
+const SKIPPED_TAGS = [
+  "script", "style", "noscript", "template", "svg", "canvas", "iframe", "frame",
+  "object", "embed", "video", "audio", "input", "select", "textarea", "option"
+];
+
+// Landmarks around the main content that hold navigation rather than content
+const BOILERPLATE_ROLES = ["navigation", "banner", "contentinfo", "complementary", "search"];
+
+interface RenderContext {
+  stripBoilerplate: boolean; // Leave out navigation, sidebars, page header/footer and buttons
+  frameId?: number;          // Child frame being read, whose ID qualifies the link refs
+}
+
+/**
+ * Get the text of the page or an element as Markdown
+ *
+ * Without an element, the page's main content is used (the main landmark,
+ * a single article, or else the body) and boilerplate is left out.
+ *
+ * @param params - Element to read, and the part of the text to return
+ * @returns The requested part of the Markdown, and where the next part starts if there is more
+ */
+export function getText(params: GetTextParams = {}): GetTextResult {
+  const root = params.element ? findElement(params.element) : findMainContent();
+  const markdown = renderBlocks([root], { stripBoilerplate: !params.element, frameId: params.frameId }).join("\n\n");
+
+  const offset = Math.min(params.offset ?? 0, markdown.length);
+  const maxLength = params.maxLength ?? DEFAULT_MAX_LENGTH;
+  const end = findBreak(markdown, offset, offset + maxLength);
+
+  return {
+    url: window.location.href,
+    title: document.title,
+    text: markdown.slice(offset, end),
+    offset,
+    totalLength: markdown.length,
+    nextOffset: end < markdown.length ? end : undefined
+  };
+}
+
+/**
+ * Find the element holding the page's main content
+ */
+function findMainContent(): Element {
+  const main = document.querySelector("main, [role=main]");
+  if (main && isRendered(main)) {
+    return main;
+  }
+
+  const articles = document.querySelectorAll("article, [role=article]");
+  if (articles.length === 1 && isRendered(articles[0])) {
+    return articles[0];
+  }
+
+  return document.body || document.documentElement;
+}
+
+/**
+ * Find where to cut the text: the last paragraph or line break before the
+ * limit, unless that would return less than half of the limit
+ */
+function findBreak(markdown: string, start: number, limit: number): number {
+  if (limit >= markdown.length) {
+    return markdown.length;
+  }
+
+  const half = start + (limit - start) / 2;
+  for (const separator of ["\n\n", "\n"]) {
+    const index = markdown.lastIndexOf(separator, limit - separator.length);
+    if (index > half) {
+      return index + separator.length;
+    }
+  }
+  return limit;
+}
+
+/**
+ * Render nodes as Markdown blocks; runs of inline content become paragraphs
+ */
+function renderBlocks(nodes: Node[], context: RenderContext): string[] {
+  const blocks: string[] = [];
+  let inline = "";
+
+  const flush = () => {
+    const text = normalizeInline(inline);
+    if (text) {
+      blocks.push(text);
+    }
+    inline = "";
+  };
+
+  for (const node of nodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += collapseWhitespace(node.textContent || "");
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      continue;
+    }
+
+    const element = node as Element;
+    if (element.localName === "br") {
+      inline += "\n";
+    } else if (shouldSkip(element, context)) {
+      continue;
+    } else if (isBlock(element)) {
+      flush();
+      blocks.push(...renderBlock(element, context));
+    } else {
+      inline += renderInline(element, context);
+    }
+  }
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Render a block-level element
+ */
+function renderBlock(element: Element, context: RenderContext): string[] {
+  const tag = element.localName;
+
+  if (/^h[1-6]$/.test(tag)) {
+    const text = toSingleLine(renderInlineChildren(element, context));
+    return text ? [`${"#".repeat(Number(tag[1]))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case "ul":
+    case "ol":
+      return renderList(element, context);
+    case "pre": {
+      const code = (element.textContent || "").replace(/\n$/, "");
+      return code.trim() ? ["```\n" + code + "\n```"] : [];
+    }
+    case "blockquote": {
+      const quote = renderBlocks(getChildren(element), context).join("\n\n");
+      return quote ? [quote.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n")] : [];
+    }
+    case "table":
+      return renderTable(element as HTMLTableElement, context);
+    case "hr":
+      return ["---"];
+    default:
+      return renderBlocks(getChildren(element), context);
+  }
+}
+
+/**
+ * Render a list, with nested content indented under each item
+ */
+function renderList(list: Element, context: RenderContext): string[] {
+  const ordered = list.localName === "ol";
+  let number = ordered ? (list as HTMLOListElement).start : 1;
+  const items: string[] = [];
+
+  for (const item of Array.from(list.children)) {
+    if (shouldSkip(item, context)) {
+      continue;
+    }
+
+    const content = renderBlocks(getChildren(item), context).join("\n");
+    if (!content) {
+      continue;
+    }
+
+    const marker = ordered ? `${number++}.` : "-";
+    const indent = " ".repeat(marker.length + 1);
+    const [first, ...rest] = content.split("\n");
+    items.push([`${marker} ${first}`, ...rest.map((line) => (line ? indent + line : line))].join("\n"));
+  }
+
+  return items.length > 0 ? [items.join("\n")] : [];
+}
+
+/**
+ * Render a table, using its first row as the header
+ */
+function renderTable(table: HTMLTableElement, context: RenderContext): string[] {
+  const rows = Array.from(table.rows)
+    .filter((row) => !shouldSkip(row, context))
+    .map((row) => Array.from(row.cells).map((cell) =>
+      toSingleLine(renderBlocks(getChildren(cell), context).join(" ")).replace(/\|/g, "\\|")
+    ))
+    .filter((cells) => cells.some((cell) => cell !== ""));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const columns = Math.max(...rows.map((cells) => cells.length));
+  const format = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, index) => cells[index] ?? "").join(" | ")} |`;
+
+  return [[
+    format(rows[0]),
+    format(Array(columns).fill("---")),
+    ...rows.slice(1).map(format)
+  ].join("\n")];
+}
+
+/**
+ * Render an inline element
+ */
+function renderInline(element: Element, context: RenderContext): string {
+  const tag = element.localName;
+
+  switch (tag) {
+    case "a":
+      return renderLink(element as HTMLAnchorElement, context);
+    case "img": {
+      const alt = collapseWhitespace(element.getAttribute("alt") || "").trim();
+      const src = (element as HTMLImageElement).src;
+      if (!alt) {
+        return "";
+      }
+      return /^https?:/.test(src) ? `![${alt}](${src})` : `![${alt}]`;
+    }
+    case "strong":
+    case "b":
+      return wrap(renderInlineChildren(element, context), "**");
+    case "em":
+    case "i":
+      return wrap(renderInlineChildren(element, context), "*");
+    case "s":
+    case "del":
+      return wrap(renderInlineChildren(element, context), "~~");
+    case "code":
+      return wrap(collapseWhitespace(element.textContent || ""), "`");
+    default:
+      return renderInlineChildren(element, context);
+  }
+}
+
+/**
+ * Render a link with its URL and its ref, so it can be clicked by ref
+ */
+function renderLink(link: HTMLAnchorElement, context: RenderContext): string {
+  const text = toSingleLine(renderInlineChildren(link, context));
+  if (!text || !link.hasAttribute("href") || /^javascript:/i.test(link.href)) {
+    return text;
+  }
+  const ref = getOrCreateRef(link);
+  return `[${text}](${link.href} "${context.frameId ? qualifyRef(ref, context.frameId) : ref}")`;
+}
+
+/**
+ * Render the children of an element as inline content; blocks inside
+ * inline elements (e.g. cards wrapped in a link) are joined with spaces
+ */
+function renderInlineChildren(element: Element, context: RenderContext): string {
+  let text = "";
+
+  for (const node of getChildren(element)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += collapseWhitespace(node.textContent || "");
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      continue;
+    }
+
+    const child = node as Element;
+    if (child.localName === "br") {
+      text += "\n";
+    } else if (shouldSkip(child, context)) {
+      continue;
+    } else if (isBlock(child)) {
+      text += ` ${renderBlocks(getChildren(child), context).join(" ")} `;
+    } else {
+      text += renderInline(child, context);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Check whether an element and its content are left out of the text
+ */
+function shouldSkip(element: Element, context: RenderContext): boolean {
+  if (SKIPPED_TAGS.includes(element.localName) || !isRendered(element)) {
+    return true;
+  }
+
+  if (context.stripBoilerplate) {
+    if (element.localName === "button" || isBoilerplateLandmark(element)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check whether an element is a navigation, sidebar, search or page header/footer landmark
+ */
+function isBoilerplateLandmark(element: Element): boolean {
+  const role = element.getAttribute("role");
+  if (role) {
+    return BOILERPLATE_ROLES.includes(role);
+  }
+
+  switch (element.localName) {
+    case "nav":
+    case "aside":
+    case "search":
+      return true;
+    case "header":
+    case "footer":
+      // Headers and footers of articles and sections are part of the content
+      return !element.parentElement?.closest("main, article, section, [role=main], [role=article]");
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether an element is rendered and not hidden from assistive technology
+ *
+ * Unlike the snapshot's check, elements without a box of their own
+ * (display: contents) are kept, since their children hold the text.
+ */
+function isRendered(element: Element): boolean {
+  if (element.getAttribute("aria-hidden") === "true") {
+    return false;
+  }
+  const style = getComputedStyle(element);
+  return style.display !== "none" && style.visibility !== "hidden";
+}
+
+/**
+ * Check whether an element starts a new block
+ */
+function isBlock(element: Element): boolean {
+  const display = getComputedStyle(element).display;
+  return !display.startsWith("inline") && display !== "contents";
+}
+
+/**
+ * Wrap inline text in Markdown markers, keeping surrounding spaces outside them
+ */
+function wrap(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  const leading = text.startsWith(" ") ? " " : "";
+  const trailing = text.endsWith(" ") ? " " : "";
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+/**
+ * Collapse runs of whitespace in text content to single spaces
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ");
+}
+
+/**
+ * Tidy inline content: single spaces, no spaces around line breaks
+ */
+function normalizeInline(text: string): string {
+  return text.replace(/ {2,}/g, " ").replace(/ *\n */g, "\n").replace(/\n{2,}/g, "\n").trim();
+}
+
+/**
+ * Tidy inline content that must fit on one line (headings, links, table cells)
+ */
+function toSingleLine(text: string): string {
+  return normalizeInline(text).replace(/\n/g, " ");
+}
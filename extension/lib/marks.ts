@@ -0,0 +1,89 @@
+/**
+ * Set-of-marks
+ *
+ * Finds where the interactive elements of a snapshot are on screen, so the
+ * background worker can draw a labelled box for each ref onto the
+ * screenshot. Vision models can then match what they see to the refs in
+ * the ARIA snapshot. Runs in the content script of every frame; each frame
+ * measures its own elements and its parent moves them into place.
+ */
+
+import { findElementByRef, INTERACTIVE_ROLES } from "./aria-snapshot";
+import type { AriaSnapshot, Mark } from "./protocol";
+
+/**
+ * Get the boxes of the interactive elements of a frame's snapshot that are in view
+ *
+ * @param snapshot - Snapshot of this frame only (before child frames are added)
+ * @returns Boxes relative to this frame's viewport, clipped to it
+ */
+export function collectMarks(snapshot: AriaSnapshot): Mark[] {
+  const viewport = { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight };
+  const marks: Mark[] = [];
+
+  for (const { ref, role } of snapshot.elements) {
+    if (!INTERACTIVE_ROLES.includes(role)) {
+      continue;
+    }
+
+    const element = findElementByRef(ref);
+    if (!element) {
+      continue;
+    }
+
+    const rect = element.getBoundingClientRect();
+    const box = intersect({ ref, x: rect.left, y: rect.top, width: rect.width, height: rect.height }, viewport);
+    if (box) {
+      marks.push(box);
+    }
+  }
+
+  return marks;
+}
+
+/**
+ * Move the marks of a child frame into the coordinates of this frame
+ *
+ * @param iframe - Element hosting the child frame
+ * @param marks - Marks relative to the child frame's viewport
+ * @returns Marks relative to this frame's viewport, clipped to the visible part of the iframe
+ */
+export function offsetFrameMarks(iframe: Element, marks: Mark[]): Mark[] {
+  const rect = iframe.getBoundingClientRect();
+  const offsetX = rect.left + iframe.clientLeft;
+  const offsetY = rect.top + iframe.clientTop;
+
+  const visible = intersect(
+    { ref: "", x: offsetX, y: offsetY, width: iframe.clientWidth, height: iframe.clientHeight },
+    { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight }
+  );
+  if (!visible) {
+    return [];
+  }
+
+  const offset: Mark[] = [];
+  for (const mark of marks) {
+    const box = intersect({ ...mark, x: mark.x + offsetX, y: mark.y + offsetY }, visible);
+    if (box) {
+      offset.push(box);
+    }
+  }
+  return offset;
+}
+
+/**
+ * Clip a mark to an area
+ *
+ * @returns The clipped mark, or null if nothing of it is inside the area
+ */
+function intersect(mark: Mark, area: Omit<Mark, "ref">): Mark | null {
+  const left = Math.max(mark.x, area.x);
+  const top = Math.max(mark.y, area.y);
+  const right = Math.min(mark.x + mark.width, area.x + area.width);
+  const bottom = Math.min(mark.y + mark.height, area.y + area.height);
+
+  if (right - left < 1 || bottom - top < 1) {
+    return null;
+  }
+  return { ref: mark.ref, x: left, y: top, width: right - left, height: bottom - top };
+}
@@ -0,0 +1,196 @@
+/**
+ * Tab navigation
+ *
+ * Starts navigations of controlled tabs and follows their lifecycle through
+ * webNavigation events, so the request outlives the page being replaced.
+ * Runs in the background worker.
+ */
+
+import { waitForNetworkIdle } from "./network-capture";
+import { ErrorCode } from "./protocol";
+import type { NavigationParams, WaitUntil } from "./protocol";
+
+// Default time to wait for a navigation to reach the requested point
+export const DEFAULT_NAVIGATION_TIMEOUT = 30000;
+
+// Lifecycle points in the order a navigation reaches them
+const LIFECYCLE: WaitUntil[] = ["commit", "domcontentloaded", "load", "networkidle"];
+
+// Readable names of lifecycle points for error messages
+const LIFECYCLE_NAMES: Record<WaitUntil, string> = {
+  commit: "commit",
+  domcontentloaded: "DOMContentLoaded",
+  load: "load",
+  networkidle: "network idle"
+};
+
+/**
+ * Navigate a tab and wait until the navigation reaches a lifecycle point
+ *
+ * @param tabId - Tab to navigate
+ * @param start - Starts the navigation (e.g. chrome.tabs.update or chrome.tabs.goBack)
+ * @param description - What the navigation does, for error messages (e.g. "navigation to https://example.com")
+ * @param options - Lifecycle point to wait for and timeout
+ * @throws NAVIGATION_FAILED if the navigation could not start or failed with a network error,
+ *         TIMEOUT if it did not reach the lifecycle point in time
+ */
+export async function navigateTab(
+  tabId: number,
+  start: () => Promise<unknown>,
+  description: string,
+  options: NavigationParams = {}
+): Promise<void> {
+  const waitUntil = options.waitUntil ?? "load";
+  const timeout = options.timeout ?? DEFAULT_NAVIGATION_TIMEOUT;
+  const deadline = Date.now() + timeout;
+
+  // Listen before starting, so no event is missed
+  const lifecycle = trackLifecycle(tabId);
+
+  try {
+    try {
+      await start();
+    } catch (error) {
+      throw new Error(JSON.stringify({
+        code: ErrorCode.NAVIGATION_FAILED,
+        message: `${capitalize(description)} failed: ${error instanceof Error ? error.message : String(error)}`
+      }));
+    }
+
+    // Network idle is waited for once the page has loaded
+    const target = waitUntil === "networkidle" ? "load" : waitUntil;
+    await lifecycle.waitFor(target, deadline, timeout, description);
+
+    if (waitUntil === "networkidle") {
+      const inFlight = await waitForNetworkIdle(tabId, deadline);
+      if (inFlight.length > 0) {
+        throw new Error(JSON.stringify({
+          code: ErrorCode.TIMEOUT,
+          message: `Timed out after ${timeout}ms waiting for network idle after ${description} (in flight: ${inFlight.slice(0, 5).join(", ")})`
+        }));
+      }
+    }
+  } finally {
+    lifecycle.dispose();
+  }
+}
+
+/**
+ * Follow the top-frame navigation of a tab through webNavigation events
+ *
+ * Events before the next navigation starts belong to the previous page and
+ * are ignored, as are errors for other URLs (e.g. the previous page's load
+ * being aborted by this navigation).
+ */
+function trackLifecycle(tabId: number) {
+  let started = false;
+  let navigatingUrl: string | undefined;
+  let reached = -1;
+  let failure: string | null = null;
+  let notify: () => void = () => {};
+
+  const isTopFrame = (details: { tabId: number; frameId: number }) =>
+    details.tabId === tabId && details.frameId === 0;
+
+  const advance = (point: WaitUntil) => {
+    reached = Math.max(reached, LIFECYCLE.indexOf(point));
+    notify();
+  };
+
+  const onBeforeNavigate = (details: chrome.webNavigation.WebNavigationParentedCallbackDetails) => {
+    if (isTopFrame(details)) {
+      started = true;
+      navigatingUrl = details.url;
+      reached = -1;
+    }
+  };
+  const onCommitted = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails) => {
+    if (started && isTopFrame(details)) {
+      advance("commit");
+    }
+  };
+  const onDOMContentLoaded = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    if (started && isTopFrame(details)) {
+      advance("domcontentloaded");
+    }
+  };
+  const onCompleted = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    if (started && isTopFrame(details)) {
+      advance("load");
+    }
+  };
+  // Same-document navigations (history.pushState, fragments, SPA back/forward) have nothing to load
+  const onSameDocument = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails) => {
+    if (isTopFrame(details)) {
+      started = true;
+      advance("load");
+    }
+  };
+  const onErrorOccurred = (details: chrome.webNavigation.WebNavigationFramedErrorCallbackDetails) => {
+    if (started && isTopFrame(details) && details.url === navigatingUrl) {
+      failure = `${details.error} (${details.url})`;
+      notify();
+    }
+  };
+
+  chrome.webNavigation.onBeforeNavigate.addListener(onBeforeNavigate);
+  chrome.webNavigation.onCommitted.addListener(onCommitted);
+  chrome.webNavigation.onDOMContentLoaded.addListener(onDOMContentLoaded);
+  chrome.webNavigation.onCompleted.addListener(onCompleted);
+  chrome.webNavigation.onHistoryStateUpdated.addListener(onSameDocument);
+  chrome.webNavigation.onReferenceFragmentUpdated.addListener(onSameDocument);
+  chrome.webNavigation.onErrorOccurred.addListener(onErrorOccurred);
+
+  return {
+    /**
+     * Wait until the navigation reaches a lifecycle point
+     */
+    waitFor(point: WaitUntil, deadline: number, timeout: number, description: string): Promise<void> {
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          const progress = reached >= 0
+            ? `reached ${LIFECYCLE_NAMES[LIFECYCLE[reached]]}`
+            : started ? "not committed yet" : "did not start";
+          reject(new Error(JSON.stringify({
+            code: ErrorCode.TIMEOUT,
+            message: `Timed out after ${timeout}ms waiting for ${LIFECYCLE_NAMES[point]} of ${description} (${progress})`
+          })));
+        }, Math.max(0, deadline - Date.now()));
+
+        notify = () => {
+          if (failure) {
+            clearTimeout(timer);
+            reject(new Error(JSON.stringify({
+              code: ErrorCode.NAVIGATION_FAILED,
+              message: `${capitalize(description)} failed: ${failure}`
+            })));
+          } else if (reached >= LIFECYCLE.indexOf(point)) {
+            clearTimeout(timer);
+            resolve();
+          }
+        };
+        notify();
+      });
+    },
+
+    /**
+     * Stop listening for navigation events
+     */
+    dispose(): void {
+      chrome.webNavigation.onBeforeNavigate.removeListener(onBeforeNavigate);
+      chrome.webNavigation.onCommitted.removeListener(onCommitted);
+      chrome.webNavigation.onDOMContentLoaded.removeListener(onDOMContentLoaded);
+      chrome.webNavigation.onCompleted.removeListener(onCompleted);
+      chrome.webNavigation.onHistoryStateUpdated.removeListener(onSameDocument);
+      chrome.webNavigation.onReferenceFragmentUpdated.removeListener(onSameDocument);
+      chrome.webNavigation.onErrorOccurred.removeListener(onErrorOccurred);
+    }
+  };
+}
+
+/**
+ * Uppercase the first letter of a description for the start of a message
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,333 @@
+/**
+ * Network activity capture
+ *
+ * Records requests made by controlled tabs through the DevTools Protocol
+ * Network domain and stores them for retrieval via the network tool.
+ * Runs in the background worker.
+ */
+
+import { sendDebuggerCommand } from "./debugger";
+import { ErrorCode } from "./protocol";
+import type { NetworkParams, NetworkRequest } from "./protocol";
+
+// Maximum number of requests to store
+const MAX_REQUESTS = 500;
+
+// Maximum length of request/response bodies returned
+const MAX_BODY_LENGTH = 10000;
+
+// Maximum size of request bodies kept by the browser
+const MAX_POST_DATA_SIZE = 65536;
+
+interface CapturedRequest extends NetworkRequest {
+  tabId: number;
+  requestId: string;
+  monotonicStart: number; // Protocol timestamp (seconds) used to compute duration
+}
+
+// Fields read from Network domain events; every event handled carries these
+interface NetworkEvent {
+  requestId: string;
+  timestamp: number; // Protocol timestamp (seconds)
+}
+
+interface ResponseInfo {
+  status: number;
+  statusText: string;
+  mimeType: string;
+}
+
+interface RequestWillBeSentEvent extends NetworkEvent {
+  wallTime: number; // Seconds since epoch
+  type?: string;
+  request: { method: string; url: string; postData?: string };
+  redirectResponse?: ResponseInfo;
+}
+
+interface ResponseReceivedEvent extends NetworkEvent {
+  response: ResponseInfo;
+}
+
+interface LoadingFinishedEvent extends NetworkEvent {
+  encodedDataLength: number;
+}
+
+interface LoadingFailedEvent extends NetworkEvent {
+  errorText: string;
+  canceled?: boolean;
+}
+
+// Store for captured requests, oldest first
+const capturedRequests: CapturedRequest[] = [];
+
+// Requests by tab and protocol request ID, for updating as events arrive
+const requestsById = new Map<string, CapturedRequest>();
+
+// Time of the last network event per tab, for idle detection
+const lastActivity = new Map<number, number>();
+
+// Long-lived connections that never finish loading and do not count against idleness
+const STREAMING_TYPES = ["WebSocket", "EventSource"];
+
+chrome.debugger.onEvent.addListener((source, method, params) => {
+  if (source.tabId !== undefined && method.startsWith("Network.")) {
+    handleNetworkEvent(source.tabId, method, params as NetworkEvent);
+  }
+});
+
+// Requests in flight when the debugger detaches never get their finish event, and would keep the tab from going idle
+chrome.debugger.onDetach.addListener((source) => {
+  if (source.tabId !== undefined) {
+    removeRequests(source.tabId, (request) => request.duration === undefined);
+  }
+});
+
+/**
+ * Start recording network requests for a tab
+ *
+ * @param tabId - Tab to record
+ */
+export async function startNetworkCapture(tabId: number): Promise<void> {
+  await sendDebuggerCommand(tabId, "Network.enable", {
+    maxPostDataSize: MAX_POST_DATA_SIZE
+  });
+}
+
+/**
+ * Get captured requests for a tab, optionally filtered
+ *
+ * @param tabId - Tab to get requests for
+ * @param params - URL pattern, status and time window filters, limit, and whether to include bodies
+ * @returns Matching requests, oldest first
+ */
+export async function getNetworkRequests(tabId: number, params: NetworkParams = {}): Promise<NetworkRequest[]> {
+  let urlPattern: RegExp | null = null;
+  try {
+    urlPattern = params.url ? new RegExp(params.url) : null;
+  } catch {
+    throw new Error(JSON.stringify({
+      code: ErrorCode.INVALID_REQUEST,
+      message: `Invalid URL pattern: ${params.url}`
+    }));
+  }
+
+  let matches = capturedRequests.filter(request =>
+    request.tabId === tabId &&
+    (!urlPattern || urlPattern.test(request.url)) &&
+    (!params.status || matchesStatus(request, params.status)) &&
+    (params.since === undefined || request.ts >= params.since) &&
+    (params.until === undefined || request.ts <= params.until)
+  );
+
+  if (params.limit !== undefined) {
+    matches = matches.slice(-params.limit);
+  }
+
+  const results: NetworkRequest[] = [];
+  for (const captured of matches) {
+    const request: NetworkRequest = {
+      ts: captured.ts,
+      method: captured.method,
+      url: captured.url,
+      resourceType: captured.resourceType,
+      status: captured.status,
+      statusText: captured.statusText,
+      mimeType: captured.mimeType,
+      duration: captured.duration,
+      size: captured.size,
+      failed: captured.failed
+    };
+    if (params.includeBodies) {
+      request.requestBody = captured.requestBody;
+      request.responseBody = await getResponseBody(tabId, captured.requestId);
+    }
+    results.push(request);
+  }
+  return results;
+}
+
+/**
+ * Wait until a tab has had no requests in flight and no network activity for a quiet period
+ *
+ * @param tabId - Tab to watch
+ * @param deadline - Time (ms since epoch) to give up at
+ * @param quietMs - How long the network must be quiet
+ * @returns The requests still in flight ("METHOD url") if the network did not go idle in time, or an empty list
+ */
+export async function waitForNetworkIdle(tabId: number, deadline: number, quietMs: number = 500): Promise<string[]> {
+  while (true) {
+    const inFlight = capturedRequests.filter(request =>
+      request.tabId === tabId &&
+      request.duration === undefined &&
+      !STREAMING_TYPES.includes(request.resourceType)
+    );
+    const quietFor = Date.now() - (lastActivity.get(tabId) ?? 0);
+
+    if (inFlight.length === 0 && quietFor >= quietMs) {
+      return [];
+    }
+    if (Date.now() >= deadline) {
+      return inFlight.map(request => `${request.method} ${request.url}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+/**
+ * Forget captured requests for a tab
+ *
+ * @param tabId - Tab whose requests to remove
+ */
+export function clearNetworkRequests(tabId: number): void {
+  lastActivity.delete(tabId);
+  removeRequests(tabId, () => true);
+}
+
+/**
+ * Remove the captured requests of a tab that match a predicate
+ */
+function removeRequests(tabId: number, predicate: (request: CapturedRequest) => boolean): void {
+  for (let i = capturedRequests.length - 1; i >= 0; i--) {
+    const request = capturedRequests[i];
+    if (request.tabId === tabId && predicate(request)) {
+      const key = `${tabId}:${request.requestId}`;
+      if (requestsById.get(key) === request) {
+        requestsById.delete(key);
+      }
+      capturedRequests.splice(i, 1);
+    }
+  }
+}
+
+/**
+ * Update the store from a Network domain event
+ */
+function handleNetworkEvent(tabId: number, method: string, event: NetworkEvent): void {
+  const key = `${tabId}:${event.requestId}`;
+  lastActivity.set(tabId, Date.now());
+
+  switch (method) {
+    case "Network.requestWillBeSent": {
+      const params = event as RequestWillBeSentEvent;
+
+      // Redirects reuse the request ID; record each hop as its own request
+      const previous = requestsById.get(key);
+      if (previous && params.redirectResponse) {
+        previous.status = params.redirectResponse.status;
+        previous.statusText = params.redirectResponse.statusText;
+        previous.duration = toMs(params.timestamp - previous.monotonicStart);
+      }
+
+      const request: CapturedRequest = {
+        tabId,
+        requestId: params.requestId,
+        monotonicStart: params.timestamp,
+        ts: Math.round(params.wallTime * 1000),
+        method: params.request.method,
+        url: params.request.url,
+        resourceType: params.type || "Other",
+        requestBody: truncateBody(params.request.postData)
+      };
+      requestsById.set(key, request);
+      capturedRequests.push(request);
+
+      // Keep only the last MAX_REQUESTS entries
+      if (capturedRequests.length > MAX_REQUESTS) {
+        const removed = capturedRequests.shift()!;
+        const removedKey = `${removed.tabId}:${removed.requestId}`;
+        if (requestsById.get(removedKey) === removed) {
+          requestsById.delete(removedKey);
+        }
+      }
+      break;
+    }
+
+    case "Network.responseReceived": {
+      const params = event as ResponseReceivedEvent;
+      const request = requestsById.get(key);
+      if (request) {
+        request.status = params.response.status;
+        request.statusText = params.response.statusText;
+        request.mimeType = params.response.mimeType;
+      }
+      break;
+    }
+
+    case "Network.loadingFinished": {
+      const params = event as LoadingFinishedEvent;
+      const request = requestsById.get(key);
+      if (request) {
+        request.duration = toMs(params.timestamp - request.monotonicStart);
+        request.size = params.encodedDataLength;
+      }
+      break;
+    }
+
+    case "Network.loadingFailed": {
+      const params = event as LoadingFailedEvent;
+      const request = requestsById.get(key);
+      if (request) {
+        request.duration = toMs(params.timestamp - request.monotonicStart);
+        request.failed = params.canceled ? "canceled" : params.errorText;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Check a request against a status filter: an exact code ("422"), a class
+ * ("4xx"), or "failed" for requests that got no response
+ */
+function matchesStatus(request: NetworkRequest, filter: string): boolean {
+  if (filter === "failed") {
+    return request.failed !== undefined;
+  }
+  if (request.status === undefined) {
+    return false;
+  }
+
+  const classMatch = filter.match(/^([1-5])xx$/i);
+  if (classMatch) {
+    return Math.floor(request.status / 100) === Number(classMatch[1]);
+  }
+
+  return request.status === Number(filter);
+}
+
+/**
+ * Fetch a response body from the browser, if it is still available
+ */
+async function getResponseBody(tabId: number, requestId: string): Promise<string | undefined> {
+  try {
+    const { body, base64Encoded } = await sendDebuggerCommand<{ body: string; base64Encoded: boolean }>(
+      tabId,
+      "Network.getResponseBody",
+      { requestId }
+    );
+    if (base64Encoded) {
+      return `[binary, ${Math.floor(body.length * 3 / 4)} bytes]`;
+    }
+    return truncateBody(body);
+  } catch {
+    // No body (e.g. redirect, failed request) or evicted from the browser's cache
+    return undefined;
+  }
+}
+
+/**
+ * Limit a body to MAX_BODY_LENGTH characters
+ */
+function truncateBody(body: string | undefined): string | undefined {
+  if (body === undefined || body.length <= MAX_BODY_LENGTH) {
+    return body;
+  }
+  return `${body.slice(0, MAX_BODY_LENGTH)}... [truncated, ${body.length} chars]`;
+}
+
+/**
+ * Convert a protocol duration in seconds to whole milliseconds
+ */
+function toMs(seconds: number): number {
+  return Math.round(seconds * 1000);
+}
@@ -7,28 +7,205 @@
 // Request types (Server → Extension)
 export interface Request {
   id: string;
-  method: "snapshot" | "navigate" | "interact" | "console";
+  method:
+    | "snapshot"
+    | "navigate"
+    | "go_back"
+    | "go_forward"
+    | "reload"
+    | "interact"
+    | "console"
+    | "tabs"
+    | "network"
+    | "wait_for"
+    | "scroll"
+    | "screenshot"
+    | "get_text"
+    | "evaluate"
+    | "fill_form"
+    | "downloads"
+    | "handle_dialog"
+    | "configure";
   params: Record<string, any>;
 }
 
 export interface SnapshotParams {
   screenshot?: boolean; // Default true - capture screenshot
+  diff?: boolean;       // Only return changes since the previous snapshot
+  marks?: boolean;      // Label interactive elements on the screenshot with their refs
+  remember?: boolean;   // Default true - make this the baseline of the next diff
 }
 
-export interface NavigateParams {
+// Point in a navigation's lifecycle to wait for before responding
+export type WaitUntil = "commit" | "domcontentloaded" | "load" | "networkidle";
+
+// Params of go_back, go_forward and reload
+export interface NavigationParams {
+  waitUntil?: WaitUntil;      // Default "load"
+  timeout?: number;           // Milliseconds (default 30000)
+  waitFor?: WaitForCondition; // Wait for this once the navigation reached waitUntil
+}
+
+export interface NavigateParams extends NavigationParams {
   url: string;
 }
 
+// Conditions to wait for (all given conditions must be met)
+export interface WaitForCondition {
+  element?: ElementSelector;
+  state?: "visible" | "hidden"; // For element (default "visible"); "hidden" also matches a removed element
+  text?: string;                // Text visible on the page
+  url?: string;                 // Regular expression matched against the page URL
+  domStable?: boolean;          // No DOM changes for 500 ms
+  networkIdle?: boolean;        // No requests in flight for 500 ms
+  timeout?: number;             // Milliseconds (default 10000)
+}
+
+export type WaitForParams = WaitForCondition;
+
+// How interactions deliver input to the page
+// - synthetic: DOM events dispatched by the content script (isTrusted === false)
+// - debugger: real input via the Chrome debugger, falling back to synthetic
+export type InputBackend = "synthetic" | "debugger";
+
+// How typing treats existing content: replace it, append to it, or clear it first
+export type TypeMode = "replace" | "append" | "clear";
+
+// File sent by the server for an upload
+export interface UploadFile {
+  name: string;
+  mimeType: string;
+  data: string;          // Base64
+  lastModified?: number; // Epoch milliseconds
+}
+
 export interface InteractParams {
-  action: "click" | "type" | "hover" | "select" | "press";
+  action: "click" | "type" | "hover" | "select" | "press" | "upload" | "drag";
   element?: ElementSelector;
   text?: string;
-  key?: string;
+  mode?: TypeMode; // For type action (default "replace")
+  delay?: number;  // For type action: milliseconds between keystrokes
+  key?: string;    // For press action: key or chord, e.g. "Enter", "Control+Shift+K"
+  repeat?: number; // For press action: number of times to press (default 1)
   value?: string;
   snapshot?: boolean;
+  diff?: boolean; // With snapshot: only return changes since the previous snapshot
+  input?: InputBackend; // Default "synthetic"
+  files?: UploadFile[]; // For upload action
+  target?: ElementSelector; // For drag action: element to drop on
+  offset?: { x: number; y: number }; // For drag action: CSS pixels to drag by, instead of a target
+  waitFor?: WaitForCondition; // Wait for this after the interaction, before the snapshot
 }
 
-export interface ConsoleParams {}
+export interface ScrollParams {
+  element?: ElementSelector;   // Scroll container, or an element inside it (default: the page)
+  direction?: "down" | "up" | "left" | "right"; // Default "down"
+  amount?: number;             // Distance in units (default 1)
+  unit?: "pages" | "pixels";   // Default "pages" (the container's visible size)
+  to?: "top" | "bottom";       // Scroll to an end instead of by a distance
+  target?: ElementSelector;    // Scroll until this element is in view instead
+  repeat?: number;             // Scroll up to N times, stopping at the end once nothing new loads
+  snapshot?: boolean;
+  diff?: boolean;
+}
+
+// Value for a form field: text, true/false for checkboxes, option value or label for selects and radio groups
+export type FieldValue = string | boolean | string[];
+
+export interface FormField {
+  element: ElementSelector;
+  value: FieldValue;
+}
+
+export interface FillFormParams {
+  fields: FormField[];
+  snapshot?: boolean;
+  diff?: boolean;
+  input?: InputBackend; // Default "synthetic"
+}
+
+export type ScreenshotFormat = "png" | "jpeg" | "webp";
+
+export interface ScreenshotParams {
+  fullPage?: boolean;         // Whole scrollable page instead of the viewport
+  element?: ElementSelector;  // Clip to this element's bounding box
+  format?: ScreenshotFormat;  // Default "png"
+  quality?: number;           // 0-100, for JPEG and WebP
+  maxWidth?: number;          // Downscale to at most this many pixels wide
+  maxHeight?: number;         // Downscale to at most this many pixels high
+}
+
+export interface GetTextParams {
+  element?: ElementSelector; // Read only this element (default: the page's main content)
+  maxLength?: number;        // Characters to return (default 20000)
+  offset?: number;           // Character to start at, from nextOffset of a previous call
+  frameId?: number;          // Set by the background worker when routed to a child frame, to qualify link refs
+}
+
+export interface EvaluateParams {
+  expression: string; // Expression, or function to call, e.g. "window.__APP_STATE__" or "() => ..."
+  maxLength?: number; // Characters of the serialized result to return (default 10000)
+  timeout?: number;   // Milliseconds to wait for the result (default 10000)
+}
+
+export interface ConsoleParams {
+  level?: ConsoleLog["level"]; // Minimum level (debug < log/info < warn < error)
+  since?: number;              // Only entries logged at or after this time (ms since epoch)
+  cursor?: number;             // Only entries after this cursor (from a previous result)
+  text?: string;               // Regular expression matched against the text (case-insensitive)
+  limit?: number;              // Maximum entries to return (default 100)
+  clear?: boolean;             // Remove the entries up to the returned cursor after reading
+}
+
+export interface NetworkParams {
+  url?: string;            // Regular expression matched against request URLs
+  status?: string;         // "422", "4xx" or "failed"
+  since?: number;          // Only requests started at or after this time (ms since epoch)
+  until?: number;          // Only requests started at or before this time (ms since epoch)
+  limit?: number;          // Only the most recent N matching requests
+  includeBodies?: boolean; // Include request and response bodies
+}
+
+export interface TabsParams {
+  action: "list" | "open" | "switch" | "close";
+  tabId?: number; // Tab to switch to or close (close defaults to the current tab)
+  url?: string;   // URL to open (open only)
+}
+
+export interface HandleDialogParams {
+  action: "accept" | "dismiss";
+  promptText?: string; // Text to enter into a prompt dialog (default: its default text)
+}
+
+// How JavaScript dialogs are handled: accepted, dismissed, or left open for handle_dialog
+export type DialogPolicy = "accept" | "dismiss" | "ask";
+
+// When network capture, console capture and dialog tracking attach the debugger to a tab:
+// the first time the debugger is needed there, or as soon as the tab is controlled
+export type DebuggerCapture = "auto" | "always";
+
+// Settings the server sends when it connects
+export interface ConfigureParams {
+  dialogPolicy?: DialogPolicy;          // Default "ask"
+  debuggerCapture?: DebuggerCapture;    // Default "always"
+}
+
+export interface DownloadsParams {
+  action: "list" | "wait";
+  id?: number;      // Download to wait for (default: the next download not yet returned by wait)
+  timeout?: number; // Milliseconds to wait for the download to start and finish (default 30000)
+  includeContent?: boolean; // For wait: return the content of the finished file (default true)
+  maxContentBytes?: number; // Largest file whose content is returned (default 100 KB)
+}
+
+// Parts of the browser state that change: the connected tab's page, its console logs, the controlled tabs
+export type StateChange = "page" | "console" | "tabs";
+
+// Notification types (Extension → Server), sent without an ID
+export interface Notification {
+  method: "state_changed";
+  params: { changes: StateChange[] };
+}
 
 // Response types (Extension → Server)
 export interface SuccessResponse {
@@ -48,7 +225,7 @@ export type Response = SuccessResponse | ErrorResponse;
 
 // Element selection strategies
 export type ElementSelector =
-  | { ref: string }                    // ARIA snapshot ref: "e1", "e2"
+  | { ref: string }                    // ARIA snapshot ref: "kqwme1", "kqwme2"
   | { css: string }                    // CSS selector: ".submit-btn"
   | { role: string; name?: string };   // Accessibility: { role: "button", name: "Submit" }
 
@@ -56,9 +233,11 @@ export type ElementSelector =
 export enum ErrorCode {
   ELEMENT_NOT_FOUND = "ELEMENT_NOT_FOUND",
   ELEMENT_AMBIGUOUS = "ELEMENT_AMBIGUOUS",
+  STALE_REF = "STALE_REF",
   TIMEOUT = "TIMEOUT",
   NO_TAB = "NO_TAB",
   NAVIGATION_FAILED = "NAVIGATION_FAILED",
+  DIALOG_OPEN = "DIALOG_OPEN",
   INVALID_REQUEST = "INVALID_REQUEST",
   INTERNAL_ERROR = "INTERNAL_ERROR"
 }
@@ -69,26 +248,53 @@ export interface AriaElement {
   role: string;
   name: string;
   states: string;
+  depth: number;   // Nesting level (0 = top level)
+  parent?: string; // Ref of the enclosing element, if any
 }
 
 export interface AriaSnapshot {
   url: string;
   title: string;
   elements: AriaElement[];
+  marks?: Mark[]; // Only when requested
+}
+
+// Box of an interactive element in view, in CSS pixels relative to the viewport
+export interface Mark {
+  ref: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Changes between two snapshots of the same page, keyed by ref
+export interface AriaSnapshotDiff {
+  url: string;
+  title: string;
+  added: AriaElement[];
+  removed: string[];
+  changed: AriaElement[];
 }
 
 // Snapshot response (sent to MCP server)
 export interface SnapshotResult {
   url: string;
   title: string;
-  aria: string;
+  aria: string; // TOON-encoded ARIA snapshot (or diff)
+  diff?: boolean; // True if aria only contains changes since the previous snapshot
   screenshot?: string; // Base64 PNG data URL
+  marks?: {            // Boxes to draw on the screenshot; removed before sending to the server
+    devicePixelRatio: number;
+    elements: Mark[];
+  };
 }
 
 // Navigate response
 export interface NavigateResult {
   url: string;
   title: string;
+  dialogs?: DialogInfo[]; // Dialogs the policy handled, e.g. beforeunload prompts
 }
 
 // Interact response
@@ -96,7 +302,47 @@ export interface InteractResult {
   success: boolean;
   url?: string;
   title?: string;
-  elements?: AriaElement[];
+  aria?: string; // TOON-encoded ARIA snapshot (when snapshot: true)
+  diff?: boolean;
+  dialogs?: DialogInfo[]; // Dialogs the policy handled during the interaction
+}
+
+// Get text response
+export interface GetTextResult {
+  url: string;
+  title: string;
+  text: string;        // Markdown
+  offset: number;
+  totalLength: number; // Characters in the whole Markdown
+  nextOffset?: number; // Offset of the rest of the text, if it was cut off
+}
+
+// Evaluate response: the serialized value, or the exception thrown
+export interface EvaluateResult {
+  type?: string;       // JavaScript type of the value (e.g. "object", "array", "string")
+  value?: string;      // JSON, or a description of values JSON cannot represent
+  length?: number;     // Characters in the whole serialized value
+  truncated?: boolean; // True if value was cut off at maxLength
+  exception?: string;  // Error thrown, with its stack trace
+}
+
+// Fill form response
+export interface FieldResult {
+  element: ElementSelector;
+  success: boolean;
+  value?: string;             // Value of the field afterwards
+  error?: string;             // Why the field could not be filled
+  validationMessage?: string; // Message the browser or page shows for the field
+}
+
+export interface FillFormResult {
+  fields: FieldResult[];
+  messages: string[]; // Alerts shown on the page after filling
+  url?: string;
+  title?: string;
+  aria?: string;
+  diff?: boolean;
+  dialogs?: DialogInfo[]; // Dialogs the policy handled while filling
 }
 
 // Console log types
@@ -104,18 +350,118 @@ export interface ConsoleLog {
   level: "log" | "info" | "warn" | "error" | "debug";
   ts: number;
   text: string;
+  source?: string;   // "console", "exception", or the browser's category (e.g. "network", "security")
+  location?: string; // Source URL with line and column
+  stack?: string;    // Stack trace, one "at ..." frame per line
 }
 
 export interface ConsoleResult {
   logs: ConsoleLog[];
+  cursor: number;   // Pass as `cursor` to get only later entries
+  hasMore: boolean; // More matching entries follow the cursor
+}
+
+// Network capture types
+export interface NetworkRequest {
+  ts: number;            // Start time (ms since epoch)
+  method: string;
+  url: string;
+  resourceType: string;  // e.g. "Document", "XHR", "Fetch", "Script"
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  duration?: number;     // Milliseconds until finished or failed
+  size?: number;         // Encoded bytes received
+  failed?: string;       // Error text if the request failed
+  requestBody?: string;
+  responseBody?: string;
+}
+
+export interface NetworkResult {
+  requests: NetworkRequest[];
+}
+
+export interface ScrollResult {
+  x: number;             // Scroll position after scrolling
+  y: number;
+  scrollWidth: number;   // Scrollable size of the container
+  scrollHeight: number;
+  atEnd: boolean;        // Cannot scroll further in the requested direction
+  newContent: boolean;   // Elements were added or the container grew while scrolling
+  scrolls: number;       // Number of scroll steps performed
+  url?: string;
+  title?: string;
+  aria?: string;         // TOON-encoded ARIA snapshot (when snapshot: true)
+  diff?: boolean;
+}
+
+export interface ScreenshotResult {
+  screenshot: string; // Data URL
+  width: number;      // Image size in pixels
+  height: number;
+}
+
+export interface WaitForResult {
+  url: string;
+  title: string;
+  elapsed: number; // Milliseconds waited
+}
+
+// Tab management types
+export interface TabInfo {
+  id: number;
+  url: string;
+  title: string;
+  target: boolean;      // Requests are currently sent to this tab
+  openerTabId?: number; // Tab that opened this one (popups, target=_blank)
+}
+
+export interface TabsResult {
+  targetTabId: number | null;
+  tabs: TabInfo[];
+}
+
+// JavaScript dialog opened by the page
+export interface DialogInfo {
+  type: "alert" | "confirm" | "prompt" | "beforeunload";
+  message: string;
+  url: string;                        // Page that opened the dialog
+  defaultPrompt?: string;             // Default text of a prompt dialog
+  handled?: "accepted" | "dismissed"; // How the dialog was closed
+}
+
+// Download types
+export interface DownloadInfo {
+  id: number;
+  url: string;
+  filename: string;    // Absolute path of the file on the browser's machine
+  mimeType: string;
+  state: "in_progress" | "interrupted" | "complete";
+  bytesReceived: number;
+  totalBytes?: number; // Size of the file, if known
+  startTime: number;   // Milliseconds since epoch
+  endTime?: number;
+  error?: string;      // Why the download was interrupted
+  exists: boolean;     // Whether the file is still on disk
+  content?: string;        // Base64 content of the file, for wait with includeContent
+  contentSkipped?: string; // Why the content was not returned
+}
+
+export interface DownloadsResult {
+  downloads: DownloadInfo[]; // Oldest first; for wait, the download waited for
 }
 
 // Message types for internal communication (background ↔ content)
 export enum MessageType {
   SNAPSHOT = "SNAPSHOT",
-  NAVIGATE = "NAVIGATE",
   INTERACT = "INTERACT",
-  CONSOLE = "CONSOLE",
+  SCROLL = "SCROLL",
+  GET_TEXT = "GET_TEXT",
+  FILL_FORM = "FILL_FORM",
+  FRAME_SNAPSHOT = "FRAME_SNAPSHOT", // Snapshot of a child frame, relayed by the background worker
+  WAIT_FOR = "WAIT_FOR",             // Wait for page conditions, answered directly to the background worker
+  ELEMENT_BOUNDS = "ELEMENT_BOUNDS", // Bounding box of an element, answered directly to the background worker
+  DOWNLOAD_CONTENT = "DOWNLOAD_CONTENT", // Content of a download fetched by the page, answered directly to the background worker
   INIT = "INIT"
 }
 
@@ -125,6 +471,14 @@ export interface InternalMessage {
   params?: any;
 }
 
+// Trusted input requested by the content script (coordinates in the top-level viewport)
+export type TrustedInput =
+  | { kind: "click"; x: number; y: number }
+  | { kind: "hover"; x: number; y: number }
+  | { kind: "insertText"; text: string }
+  | { kind: "key"; key: string } // Key or chord, e.g. "Control+Shift+K"
+  | { kind: "drag"; x: number; y: number; toX: number; toY: number }; // Press at (x, y), move to (toX, toY), release
+
 export interface InternalResponse {
   requestId: string;
   success: boolean;
@@ -0,0 +1,94 @@
+/**
+ * Screenshots via the Chrome debugger
+ *
+ * Captures the viewport, the full page or a region of a tab with the
+ * DevTools Protocol, which works whether or not the tab is visible, and
+ * can encode as PNG, JPEG or WebP and downscale to a size budget.
+ * Runs in the background worker.
+ */
+
+import { sendDebuggerCommand } from "./debugger";
+import type { ScreenshotFormat } from "./protocol";
+
+export interface ScreenshotOptions {
+  fullPage?: boolean;        // Capture the whole scrollable page instead of the viewport
+  clip?: Rect;               // Region to capture, in CSS pixels relative to the viewport
+  format?: ScreenshotFormat; // Default "png"
+  quality?: number;          // 0-100, for JPEG and WebP
+  maxWidth?: number;         // Downscale so the image is at most this many pixels wide
+  maxHeight?: number;        // Downscale so the image is at most this many pixels high
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Screenshot {
+  dataUrl: string;
+  width: number;  // Image size in pixels
+  height: number;
+}
+
+/**
+ * Capture a screenshot of a tab
+ *
+ * @param tabId - Tab to capture
+ * @param options - Region, format and size budget
+ * @returns The image as a data URL, with its size
+ */
+export async function captureTabScreenshot(tabId: number, options: ScreenshotOptions = {}): Promise<Screenshot> {
+  const format = options.format ?? "png";
+
+  const metrics = await sendDebuggerCommand(tabId, "Page.getLayoutMetrics");
+  const viewport = metrics.cssVisualViewport;
+
+  // Clip coordinates are relative to the document
+  let region: Rect;
+  if (options.clip) {
+    region = {
+      x: options.clip.x + viewport.pageX,
+      y: options.clip.y + viewport.pageY,
+      width: options.clip.width,
+      height: options.clip.height
+    };
+  } else if (options.fullPage) {
+    region = { x: 0, y: 0, width: metrics.cssContentSize.width, height: metrics.cssContentSize.height };
+  } else {
+    region = { x: viewport.pageX, y: viewport.pageY, width: viewport.clientWidth, height: viewport.clientHeight };
+  }
+
+  // The image has device pixels; scale it down to fit the budget
+  const deviceScale = await getDevicePixelRatio(tabId);
+  const scale = Math.min(
+    1,
+    options.maxWidth ? options.maxWidth / (region.width * deviceScale) : 1,
+    options.maxHeight ? options.maxHeight / (region.height * deviceScale) : 1
+  );
+
+  const { data } = await sendDebuggerCommand<{ data: string }>(tabId, "Page.captureScreenshot", {
+    format,
+    quality: format === "png" ? undefined : options.quality,
+    clip: { ...region, scale },
+    captureBeyondViewport: options.fullPage === true || options.clip !== undefined
+  });
+
+  return {
+    dataUrl: `data:image/${format};base64,${data}`,
+    width: Math.round(region.width * deviceScale * scale),
+    height: Math.round(region.height * deviceScale * scale)
+  };
+}
+
+/**
+ * Get the ratio of device pixels to CSS pixels of a tab
+ */
+async function getDevicePixelRatio(tabId: number): Promise<number> {
+  const { result } = await sendDebuggerCommand(tabId, "Runtime.evaluate", {
+    expression: "window.devicePixelRatio",
+    returnByValue: true
+  });
+  return typeof result?.value === "number" && result.value > 0 ? result.value : 1;
+}
@@ -0,0 +1,162 @@
+/**
+ * Scrolling
+ *
+ * Scrolls the page or a scroll container by pixels or pages, to the top or
+ * bottom, or until an element is in view, and reports whether new content
+ * appeared, so feeds with infinite scroll and lazy-loaded content can be
+ * reached. Runs in the content script.
+ */
+
+import { findElement } from "./interactions";
+import { waitForPage } from "./wait";
+import type { ScrollParams, ScrollResult } from "./protocol";
+
+// Longest time to wait for content to load after each scroll
+const SETTLE_TIMEOUT = 2000;
+
+/**
+ * Scroll as described by the params, repeating while new content loads
+ *
+ * @param params - Container, direction and distance, or destination, and repeat count
+ * @returns Scroll position and size afterwards, and whether new content loaded
+ */
+export async function scroll(params: ScrollParams): Promise<ScrollResult> {
+  const container = params.element ? getScrollContainer(findElement(params.element)) : getPageScroller();
+  const repeat = params.target ? 1 : params.repeat ?? 1;
+
+  let newContent = false;
+  let scrolls = 0;
+
+  for (let i = 0; i < repeat; i++) {
+    const before = measureContent(container);
+
+    scrollOnce(container, params);
+    scrolls++;
+
+    // Give scroll listeners and lazy loaders time to add content
+    await waitForPage({ domStable: true }, SETTLE_TIMEOUT);
+
+    const after = measureContent(container);
+    const grew = after.elements > before.elements || after.scrollHeight > before.scrollHeight;
+    newContent ||= grew;
+
+    // Stop at the end unless more content has just been loaded there
+    if (!grew && isAtEnd(container, params)) {
+      break;
+    }
+  }
+
+  return {
+    x: Math.round(container.scrollLeft),
+    y: Math.round(container.scrollTop),
+    scrollWidth: container.scrollWidth,
+    scrollHeight: container.scrollHeight,
+    atEnd: isAtEnd(container, params),
+    newContent,
+    scrolls
+  };
+}
+
+/**
+ * Perform one scroll step
+ */
+function scrollOnce(container: Element, params: ScrollParams): void {
+  if (params.target) {
+    findElement(params.target).scrollIntoView({ behavior: "auto", block: "center", inline: "center" });
+    return;
+  }
+
+  if (params.to === "top") {
+    container.scrollTo({ top: 0, behavior: "auto" });
+    return;
+  }
+  if (params.to === "bottom") {
+    container.scrollTo({ top: container.scrollHeight, behavior: "auto" });
+    return;
+  }
+
+  const direction = params.direction ?? "down";
+  const horizontal = direction === "left" || direction === "right";
+  const pageSize = horizontal ? getViewportSize(container).width : getViewportSize(container).height;
+  const distance = (params.amount ?? 1) * (params.unit === "pixels" ? 1 : pageSize);
+  const sign = direction === "up" || direction === "left" ? -1 : 1;
+
+  container.scrollBy({
+    left: horizontal ? sign * distance : 0,
+    top: horizontal ? 0 : sign * distance,
+    behavior: "auto"
+  });
+}
+
+/**
+ * Check whether the container cannot scroll any further in the requested direction
+ */
+function isAtEnd(container: Element, params: ScrollParams): boolean {
+  const { width, height } = getViewportSize(container);
+  const direction = params.to === "top" ? "up" : params.to === "bottom" ? "down" : params.direction ?? "down";
+
+  switch (direction) {
+    case "up":
+      return container.scrollTop <= 0;
+    case "left":
+      return container.scrollLeft <= 0;
+    case "right":
+      return container.scrollLeft + width >= container.scrollWidth - 1;
+    default:
+      return container.scrollTop + height >= container.scrollHeight - 1;
+  }
+}
+
+/**
+ * Get the visible size of a scroll container (the viewport for the page)
+ */
+function getViewportSize(container: Element): { width: number; height: number } {
+  if (container === getPageScroller()) {
+    return { width: window.innerWidth, height: window.innerHeight };
+  }
+  return { width: container.clientWidth, height: container.clientHeight };
+}
+
+/**
+ * Measure how much content a container holds, to detect newly loaded content
+ */
+function measureContent(container: Element): { elements: number; scrollHeight: number } {
+  return {
+    elements: container.getElementsByTagName("*").length,
+    scrollHeight: container.scrollHeight
+  };
+}
+
+/**
+ * Get the element that scrolls the page
+ */
+function getPageScroller(): Element {
+  return document.scrollingElement || document.documentElement;
+}
+
+/**
+ * Get the scroll container for an element: the element itself if it
+ * scrolls, otherwise its nearest scrolling ancestor, otherwise the page
+ */
+function getScrollContainer(element: Element): Element {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    if (current === document.body || current === document.documentElement) {
+      break;
+    }
+    if (isScrollable(current)) {
+      return current;
+    }
+  }
+
+  return getPageScroller();
+}
+
+/**
+ * Check whether an element has overflowing content it lets the user scroll
+ */
+function isScrollable(element: Element): boolean {
+  const style = getComputedStyle(element);
+  const scrollsY = /auto|scroll|overlay/.test(style.overflowY) && element.scrollHeight > element.clientHeight;
+  const scrollsX = /auto|scroll|overlay/.test(style.overflowX) && element.scrollWidth > element.clientWidth;
+  return scrollsY || scrollsX;
+}
@@ -0,0 +1,92 @@
+/**
+ * Incremental ARIA snapshots
+ *
+ * Remembers the last snapshot taken in this document and computes which
+ * elements were added, removed or changed since then, keyed by ref.
+ * Because the content script is injected per tab, the remembered snapshot
+ * is per tab, and a full page navigation starts over with a fresh one.
+ */
+
+import type { AriaElement, AriaSnapshot, AriaSnapshotDiff } from "./protocol";
+
+let lastSnapshot: AriaSnapshot | null = null;
+
+/**
+ * Record a snapshot as the baseline for the next diff.
+ *
+ * @param snapshot - Snapshot that was just sent to the server
+ */
+export function rememberSnapshot(snapshot: AriaSnapshot): void {
+  lastSnapshot = snapshot;
+}
+
+/**
+ * Get the snapshot a diff would be computed against.
+ *
+ * Returns null when there is nothing to diff against: no snapshot has been
+ * taken in this document yet, or the URL changed since (SPA navigation),
+ * in which case a full snapshot should be sent instead.
+ *
+ * @param url - Current page URL
+ * @returns The previous snapshot, or null if a full snapshot is needed
+ */
+export function getDiffBaseline(url: string): AriaSnapshot | null {
+  if (!lastSnapshot || lastSnapshot.url !== url) {
+    return null;
+  }
+  return lastSnapshot;
+}
+
+/**
+ * Compute the differences between two snapshots of the same page.
+ *
+ * An element is "changed" when its ref is present in both snapshots but its
+ * role, name, states or position in the tree differ.
+ *
+ * @param previous - Baseline snapshot
+ * @param current - Newly generated snapshot
+ * @returns Added and changed elements plus the refs of removed elements
+ */
+export function diffSnapshots(previous: AriaSnapshot, current: AriaSnapshot): AriaSnapshotDiff {
+  const previousByRef = new Map<string, AriaElement>();
+  for (const element of previous.elements) {
+    previousByRef.set(element.ref, element);
+  }
+
+  const added: AriaElement[] = [];
+  const changed: AriaElement[] = [];
+  const currentRefs = new Set<string>();
+
+  for (const element of current.elements) {
+    currentRefs.add(element.ref);
+
+    const before = previousByRef.get(element.ref);
+    if (!before) {
+      added.push(element);
+    } else if (hasChanged(before, element)) {
+      changed.push(element);
+    }
+  }
+
+  const removed = previous.elements
+    .map(element => element.ref)
+    .filter(ref => !currentRefs.has(ref));
+
+  return {
+    url: current.url,
+    title: current.title,
+    added,
+    removed,
+    changed
+  };
+}
+
+/**
+ * Check whether an element differs between two snapshots.
+ */
+function hasChanged(before: AriaElement, after: AriaElement): boolean {
+  return before.role !== after.role ||
+    before.name !== after.name ||
+    before.states !== after.states ||
+    before.parent !== after.parent;
+}
@@ -0,0 +1,103 @@
+/**
+ * TOON serialization for ARIA snapshots
+ *
+ * Renders snapshot elements as a TOON tabular array so the MCP server can
+ * pass them to the model verbatim. Rows are indented by nesting depth so
+ * the table reads as a tree, e.g.:
+ *
+ *   elements[4]{ref,role,name,states}:
+ *     e1,dialog,Delete project?,""
+ *       e2,heading,Delete project?,level=2
+ *       e3,button,Cancel,""
+ *       e4,button,Delete,focused
+ *
+ * Diffs are flat tables that name each element's parent instead, e.g.:
+ *
+ *   added[1]{ref,role,name,states,parent}:
+ *     e9,alert,Saved,"",e1
+ *   removed[2]: e3,e4
+ */
+
+import { encode } from "@toon-format/toon";
+
+import type { AriaElement, AriaSnapshot, AriaSnapshotDiff } from "./protocol";
+
+// Indentation added per nesting level (matches TOON's default indent)
+const INDENT = "  ";
+
+/**
+ * Encode the elements of an ARIA snapshot as TOON.
+ *
+ * Page URL and title are reported separately by the server, so only the
+ * element table is encoded.
+ *
+ * @param snapshot - Snapshot produced by generateAriaSnapshot()
+ * @returns TOON-encoded element tree
+ */
+export function encodeAriaSnapshot(snapshot: AriaSnapshot): string {
+  return encodeAriaElements(snapshot.elements);
+}
+
+/**
+ * Encode a list of ARIA elements as an indented TOON tabular array.
+ *
+ * Field order is fixed so every row lines up with the
+ * `{ref,role,name,states}` header regardless of how the objects were built.
+ * TOON handles quoting and emits one line per row; each row is then
+ * indented by the element's depth.
+ *
+ * @param elements - Elements to encode, in document order
+ * @returns TOON-encoded element tree
+ */
+export function encodeAriaElements(elements: AriaElement[]): string {
+  const rows = elements.map(({ ref, role, name, states }) => ({
+    ref,
+    role,
+    name,
+    states
+  }));
+
+  const [header, ...lines] = encode({ elements: rows }).split("\n");
+
+  return [
+    header,
+    ...lines.map((line, i) => INDENT.repeat(elements[i].depth) + line)
+  ].join("\n");
+}
+
+/**
+ * Encode the changes between two snapshots as TOON.
+ *
+ * Added and changed elements carry their parent ref so the model can place
+ * them in the tree it already has; removed elements are listed by ref.
+ * Empty sections are omitted.
+ *
+ * @param diff - Diff produced by diffSnapshots()
+ * @returns TOON-encoded diff
+ */
+export function encodeAriaSnapshotDiff(diff: AriaSnapshotDiff): string {
+  const toRow = ({ ref, role, name, states, parent }: AriaElement) => ({
+    ref,
+    role,
+    name,
+    states,
+    parent: parent ?? ""
+  });
+
+  const sections: Record<string, unknown> = {};
+  if (diff.added.length > 0) {
+    sections.added = diff.added.map(toRow);
+  }
+  if (diff.removed.length > 0) {
+    sections.removed = diff.removed;
+  }
+  if (diff.changed.length > 0) {
+    sections.changed = diff.changed.map(toRow);
+  }
+
+  if (Object.keys(sections).length === 0) {
+    return "No changes since previous snapshot";
+  }
+
+  return encode(sections);
+}
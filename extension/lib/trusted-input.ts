@@ -0,0 +1,128 @@
+/**
+ * Trusted input via the Chrome debugger
+ *
+ * Dispatches mouse and keyboard input through the DevTools Protocol so the
+ * page receives events with isTrusted === true, exactly as if the user had
+ * used the mouse and keyboard. Runs in the background worker on behalf of
+ * the content script, which resolves elements to viewport coordinates.
+ */
+
+import { sendDebuggerCommand } from "./debugger";
+import { MODIFIERS, parseKeyChord } from "./keys";
+import type { TrustedInput } from "./protocol";
+
+// Number of moves between pressing and releasing the button in a drag
+const DRAG_STEPS = 10;
+
+/**
+ * Dispatch trusted input to a tab
+ *
+ * @param tabId - Tab to send input to
+ * @param input - Input to dispatch (coordinates are CSS pixels in the top-level viewport)
+ */
+export async function dispatchTrustedInput(tabId: number, input: TrustedInput): Promise<void> {
+  switch (input.kind) {
+    case "click":
+      await mouseEvent(tabId, "mouseMoved", input.x, input.y);
+      await mouseEvent(tabId, "mousePressed", input.x, input.y, 1);
+      await mouseEvent(tabId, "mouseReleased", input.x, input.y, 1);
+      break;
+
+    case "hover":
+      await mouseEvent(tabId, "mouseMoved", input.x, input.y);
+      break;
+
+    case "insertText":
+      await sendDebuggerCommand(tabId, "Input.insertText", { text: input.text });
+      break;
+
+    case "key":
+      await pressKeyChord(tabId, input.key);
+      break;
+
+    case "drag":
+      await mouseEvent(tabId, "mouseMoved", input.x, input.y);
+      await mouseEvent(tabId, "mousePressed", input.x, input.y, 1);
+      for (let step = 1; step <= DRAG_STEPS; step++) {
+        const x = input.x + (input.toX - input.x) * step / DRAG_STEPS;
+        const y = input.y + (input.toY - input.y) * step / DRAG_STEPS;
+        await mouseEvent(tabId, "mouseMoved", x, y, 0, true);
+      }
+      await mouseEvent(tabId, "mouseReleased", input.toX, input.toY, 1);
+      break;
+  }
+}
+
+/**
+ * Press a key chord (e.g. "Control+Shift+K"): hold the modifiers, press and
+ * release the key, then release the modifiers in reverse order
+ */
+async function pressKeyChord(tabId: number, chord: string): Promise<void> {
+  const { modifiers, key } = parseKeyChord(chord);
+  let modifierBits = 0;
+
+  for (const modifier of modifiers) {
+    const { code, keyCode, bit } = MODIFIERS[modifier];
+    modifierBits |= bit;
+    await sendDebuggerCommand(tabId, "Input.dispatchKeyEvent", {
+      type: "rawKeyDown",
+      key: modifier,
+      code,
+      windowsVirtualKeyCode: keyCode,
+      modifiers: modifierBits
+    });
+  }
+
+  // Shortcuts with Control, Meta or Alt do not insert text
+  const text = modifiers.some(modifier => modifier !== "Shift") ? undefined : key.text;
+  const common = {
+    key: key.key,
+    code: key.code,
+    windowsVirtualKeyCode: key.keyCode,
+    nativeVirtualKeyCode: key.keyCode,
+    modifiers: modifierBits
+  };
+  await sendDebuggerCommand(tabId, "Input.dispatchKeyEvent", {
+    ...common,
+    // keyDown with text also produces the keypress/input a real key would
+    type: text ? "keyDown" : "rawKeyDown",
+    text,
+    unmodifiedText: text
+  });
+  await sendDebuggerCommand(tabId, "Input.dispatchKeyEvent", { ...common, type: "keyUp" });
+
+  for (const modifier of [...modifiers].reverse()) {
+    const { code, keyCode, bit } = MODIFIERS[modifier];
+    modifierBits &= ~bit;
+    await sendDebuggerCommand(tabId, "Input.dispatchKeyEvent", {
+      type: "keyUp",
+      key: modifier,
+      code,
+      windowsVirtualKeyCode: keyCode,
+      modifiers: modifierBits
+    });
+  }
+}
+
+/**
+ * Dispatch a single left-button mouse event
+ *
+ * @param pressed - For moves: whether the left button is held down (dragging)
+ */
+async function mouseEvent(
+  tabId: number,
+  type: "mouseMoved" | "mousePressed" | "mouseReleased",
+  x: number,
+  y: number,
+  clickCount: number = 0,
+  pressed: boolean = false
+): Promise<void> {
+  await sendDebuggerCommand(tabId, "Input.dispatchMouseEvent", {
+    type,
+    x,
+    y,
+    button: type === "mouseMoved" && !pressed ? "none" : "left",
+    buttons: pressed || type === "mousePressed" ? 1 : 0,
+    clickCount
+  });
+}
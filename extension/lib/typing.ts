@@ -0,0 +1,260 @@
+/**
+ * Realistic typing
+ *
+ * Types text one character at a time with the event sequence a real
+ * keyboard produces (keydown, keypress, beforeinput, input, keyup), so
+ * framework-controlled inputs (React, Vue) and rich text editors
+ * (ProseMirror, Slate, Lexical) keep their state in sync with the DOM.
+ *
+ * - Inputs and textareas are updated through the native value setter,
+ *   bypassing framework overrides of the `value` property.
+ * - Contenteditable elements are edited through the selection with
+ *   `insertText`, so editors see ordinary input instead of replaced content.
+ */
+
+import { getKeyDefinition } from "./keys";
+import type { TypeMode } from "./protocol";
+
+export interface TypeOptions {
+  mode?: TypeMode;  // Default "replace"
+  delay?: number;   // Milliseconds to wait between keystrokes (default 0)
+}
+
+export type TextControl = HTMLInputElement | HTMLTextAreaElement;
+
+/**
+ * Type text into an input, textarea or contenteditable element
+ *
+ * @param element - Element to type into
+ * @param text - Text to type
+ * @param options - Whether to replace, append to or clear existing content, and keystroke delay
+ * @returns false if the element cannot be typed into
+ */
+export async function typeText(element: Element, text: string, options: TypeOptions = {}): Promise<boolean> {
+  const { delay = 0 } = options;
+  const mode = getEffectiveMode(text, options.mode);
+
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    element.focus();
+    prepareTextControl(element, mode);
+
+    for (const char of text) {
+      typeCharacter(element, char, () => insertIntoTextControl(element, char));
+      await sleep(delay);
+    }
+
+    element.dispatchEvent(new Event("change", { bubbles: true }));
+    return true;
+  }
+
+  if (element instanceof HTMLElement && element.isContentEditable) {
+    element.focus();
+    prepareContentEditable(element, mode);
+
+    for (const char of text) {
+      typeCharacter(element, char, () => insertIntoContentEditable(element, char));
+      await sleep(delay);
+    }
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Get the mode to type text with
+ *
+ * Replacing with empty text types no character that would overwrite the
+ * selected content, so the content is cleared instead.
+ */
+export function getEffectiveMode(text: string, mode: TypeMode = "replace"): TypeMode {
+  return mode === "replace" && text === "" ? "clear" : mode;
+}
+
+/**
+ * Dispatch the keyboard and input events for one character
+ *
+ * The insertion is skipped if the page cancels keydown or beforeinput,
+ * as a browser would.
+ */
+function typeCharacter(target: HTMLElement, char: string, insert: () => void): void {
+  const definition = getKeyDefinition(char);
+  const keyInit: KeyboardEventInit = {
+    key: definition.key,
+    code: definition.code,
+    keyCode: definition.keyCode,
+    which: definition.keyCode,
+    bubbles: true,
+    cancelable: true,
+    composed: true
+  };
+
+  const keydownAllowed = target.dispatchEvent(new KeyboardEvent("keydown", keyInit));
+  if (keydownAllowed) {
+    target.dispatchEvent(new KeyboardEvent("keypress", {
+      ...keyInit,
+      charCode: char.charCodeAt(0)
+    }));
+    insert();
+  }
+  target.dispatchEvent(new KeyboardEvent("keyup", keyInit));
+}
+
+/**
+ * Place the caret in an input or textarea according to the typing mode
+ */
+function prepareTextControl(element: TextControl, mode: TypeMode): void {
+  const end = element.value.length;
+
+  if (mode === "append") {
+    setSelection(element, end, end);
+    return;
+  }
+
+  setSelection(element, 0, end);
+
+  // Input types without selection support (e.g. email) cannot have their
+  // content selected for replacement, so it is cleared instead
+  const canSelect = element.selectionStart !== null;
+
+  if ((mode === "clear" || !canSelect) && end > 0) {
+    if (dispatchBeforeInput(element, "deleteContentBackward", null)) {
+      setNativeValue(element, "");
+      dispatchInput(element, "deleteContentBackward", null);
+    }
+  }
+}
+
+/**
+ * Insert a character at the caret of an input or textarea, replacing any selection
+ */
+function insertIntoTextControl(element: TextControl, char: string): void {
+  if (!dispatchBeforeInput(element, "insertText", char)) {
+    return;
+  }
+
+  const value = element.value;
+  const start = element.selectionStart ?? value.length;
+  const end = element.selectionEnd ?? value.length;
+
+  setNativeValue(element, value.slice(0, start) + char + value.slice(end));
+  setSelection(element, start + char.length, start + char.length);
+  dispatchInput(element, "insertText", char);
+}
+
+/**
+ * Select or collapse the contents of a contenteditable element according to the typing mode
+ */
+function prepareContentEditable(element: HTMLElement, mode: TypeMode): void {
+  const selection = window.getSelection();
+  if (!selection) {
+    return;
+  }
+
+  const range = document.createRange();
+  range.selectNodeContents(element);
+  if (mode === "append") {
+    range.collapse(false);
+  }
+  selection.removeAllRanges();
+  selection.addRange(range);
+
+  if (mode === "clear" && element.textContent) {
+    document.execCommand("delete");
+  }
+}
+
+/**
+ * Insert a character at the selection of a contenteditable element
+ *
+ * execCommand("insertText") fires beforeinput and input itself and goes
+ * through the browser's editing pipeline, which editors listen to. If it is
+ * unavailable, the events are dispatched and the text inserted by hand.
+ */
+function insertIntoContentEditable(element: HTMLElement, char: string): void {
+  if (document.execCommand("insertText", false, char)) {
+    return;
+  }
+
+  if (!dispatchBeforeInput(element, "insertText", char)) {
+    return;
+  }
+
+  const selection = window.getSelection();
+  if (selection && selection.rangeCount > 0) {
+    const range = selection.getRangeAt(0);
+    range.deleteContents();
+    const textNode = document.createTextNode(char);
+    range.insertNode(textNode);
+    range.setStartAfter(textNode);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+  dispatchInput(element, "insertText", char);
+}
+
+/**
+ * Set a value through the prototype's setter, bypassing instance overrides
+ * installed by frameworks (e.g. React's value tracking)
+ */
+export function setNativeValue(element: TextControl, value: string): void {
+  const prototype = element instanceof HTMLTextAreaElement
+    ? HTMLTextAreaElement.prototype
+    : HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(prototype, "value")?.set;
+
+  if (setter) {
+    setter.call(element, value);
+  } else {
+    element.value = value;
+  }
+}
+
+/**
+ * Set the selection of an input, ignoring input types without selection support (e.g. email, number)
+ */
+function setSelection(element: TextControl, start: number, end: number): void {
+  try {
+    element.setSelectionRange(start, end);
+  } catch {
+    // Selection is not supported for this input type
+  }
+}
+
+/**
+ * Dispatch a cancelable beforeinput event
+ *
+ * @returns false if the page cancelled the input
+ */
+function dispatchBeforeInput(element: HTMLElement, inputType: string, data: string | null): boolean {
+  return element.dispatchEvent(new InputEvent("beforeinput", {
+    inputType,
+    data,
+    bubbles: true,
+    cancelable: true,
+    composed: true
+  }));
+}
+
+/**
+ * Dispatch an input event
+ */
+function dispatchInput(element: HTMLElement, inputType: string, data: string | null): void {
+  element.dispatchEvent(new InputEvent("input", {
+    inputType,
+    data,
+    bubbles: true,
+    composed: true
+  }));
+}
+
+/**
+ * Wait between keystrokes
+ */
+function sleep(ms: number): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,105 @@
+/**
+ * Waiting for page conditions
+ *
+ * Polls the page until an element appears or disappears, text is shown,
+ * or the DOM stops changing. Runs in the content script on behalf of the
+ * background worker, which waits for URL and network conditions itself.
+ */
+
+import { findElements } from "./interactions";
+import type { WaitForCondition } from "./protocol";
+
+// Default time to wait for conditions
+export const DEFAULT_WAIT_TIMEOUT = 10000;
+
+// How long the DOM (or network) must be quiet to count as settled
+export const QUIET_PERIOD = 500;
+
+// Interval between condition checks
+export const POLL_INTERVAL = 100;
+
+/**
+ * Wait until the page conditions (element, text, domStable) are met
+ *
+ * @param condition - Conditions to wait for; URL and network conditions are ignored
+ * @param timeoutMs - Maximum time to wait
+ * @returns Descriptions of the conditions still unmet when the time ran out, or an empty list
+ */
+export async function waitForPage(condition: WaitForCondition, timeoutMs: number): Promise<string[]> {
+  const deadline = Date.now() + timeoutMs;
+  let lastMutation = Date.now();
+
+  const observer = new MutationObserver(() => {
+    lastMutation = Date.now();
+  });
+  if (condition.domStable) {
+    observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+  }
+
+  try {
+    while (true) {
+      const pending = getPendingConditions(condition, lastMutation);
+      if (pending.length === 0 || Date.now() >= deadline) {
+        return pending;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+  } finally {
+    observer.disconnect();
+  }
+}
+
+/**
+ * Check whether a condition includes anything the content script waits for
+ */
+export function hasPageConditions(condition: WaitForCondition): boolean {
+  return condition.element !== undefined || condition.text !== undefined || condition.domStable === true;
+}
+
+/**
+ * Describe the page conditions of a wait, e.g. for a timeout message
+ */
+export function describePageConditions(condition: WaitForCondition): string[] {
+  const descriptions: string[] = [];
+  if (condition.element) {
+    descriptions.push(`element ${JSON.stringify(condition.element)} to be ${condition.state ?? "visible"}`);
+  }
+  if (condition.text !== undefined) {
+    descriptions.push(`text ${JSON.stringify(condition.text)} to appear`);
+  }
+  if (condition.domStable) {
+    descriptions.push(`DOM to stop changing for ${QUIET_PERIOD}ms`);
+  }
+  return descriptions;
+}
+
+/**
+ * Get the descriptions of the page conditions that are not met right now
+ */
+function getPendingConditions(condition: WaitForCondition, lastMutation: number): string[] {
+  return describePageConditions({
+    element: condition.element && !isElementInState(condition) ? condition.element : undefined,
+    state: condition.state,
+    text: condition.text !== undefined && !document.body?.innerText.includes(condition.text) ? condition.text : undefined,
+    domStable: condition.domStable && Date.now() - lastMutation < QUIET_PERIOD
+  });
+}
+
+/**
+ * Check whether the element of a condition is visible, or hidden/removed, as requested
+ */
+function isElementInState(condition: WaitForCondition): boolean {
+  const anyVisible = findElements(condition.element!).some(isVisible);
+  return condition.state === "hidden" ? !anyVisible : anyVisible;
+}
+
+/**
+ * Check whether an element takes up space on the page and is not hidden by CSS
+ */
+function isVisible(element: Element): boolean {
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 && rect.height === 0) {
+    return false;
+  }
+  return getComputedStyle(element).visibility !== "hidden";
+}
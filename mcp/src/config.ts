@@ -0,0 +1,50 @@
+import type { DebuggerCapture, DialogPolicy, InputBackend } from "./protocol";
+
+/**
+ * Server configuration, read from environment variables
+ */
+export const config = {
+  /**
+   * How interactions deliver input to the page (`INPUT_BACKEND`)
+   *
+   * - `synthetic` (default): DOM events dispatched by the content script
+   * - `debugger`: trusted input via the Chrome debugger, falling back to synthetic
+   */
+  inputBackend: (process.env.INPUT_BACKEND === "debugger" ? "debugger" : "synthetic") as InputBackend,
+
+  /**
+   * Whether the `evaluate` tool, which runs arbitrary JavaScript in the page,
+   * is offered (`ALLOW_EVALUATE=true`). Off by default.
+   */
+  allowEvaluate: process.env.ALLOW_EVALUATE === "true" || process.env.ALLOW_EVALUATE === "1",
+
+  /**
+   * Directory the files of an upload must be in (`UPLOAD_DIR`). Relative paths are resolved against it,
+   * and paths that lead outside it, through symlinks too, are rejected. Uploads are disabled without it.
+   */
+  uploadDir: process.env.UPLOAD_DIR || undefined,
+
+  /**
+   * Largest total size of the files of one upload, in bytes (`MAX_UPLOAD_MB`, default 25)
+   */
+  maxUploadBytes: (Number(process.env.MAX_UPLOAD_MB) || 25) * 1024 * 1024,
+
+  /**
+   * How JavaScript dialogs (alert, confirm, prompt, beforeunload) are handled (`DIALOG_POLICY`)
+   *
+   * - `ask` (default): left open; requests fail with `DIALOG_OPEN` until the agent calls `handle_dialog`
+   * - `accept`: accepted right away, prompts with their default text
+   * - `dismiss`: dismissed right away
+   */
+  dialogPolicy: (["accept", "dismiss"].includes(process.env.DIALOG_POLICY ?? "") ? process.env.DIALOG_POLICY : "ask") as DialogPolicy,
+
+  /**
+   * When network capture, console capture and dialog detection attach the Chrome debugger to a tab (`DEBUGGER_CAPTURE`)
+   *
+   * - `always` (default): as soon as a tab is controlled, so console output, requests and dialogs from the start
+   *   are recorded, at the cost of Chrome's debugging bar on every controlled tab
+   * - `auto`: the first time a tab needs the debugger: an interaction, a navigation, a `network` or `console`
+   *   call, a network idle wait, a screenshot, `evaluate` or trusted input. What happens before is missed
+   */
+  debuggerCapture: (process.env.DEBUGGER_CAPTURE === "auto" ? "auto" : "always") as DebuggerCapture,
+};
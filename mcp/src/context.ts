@@ -1,7 +1,7 @@
 import { WebSocket } from "ws";
 import { randomUUID } from "crypto";
 
-import { ErrorCode, JsonRpcRequest, JsonRpcResponse } from "./protocol";
+import { ErrorCode, JsonRpcNotification, JsonRpcRequest, JsonRpcResponse } from "./protocol";
 
 const noConnectionMessage = `No connection to browser extension. In order to proceed, you must first connect a tab by clicking the Browser MCP extension icon in the browser toolbar and clicking the 'Connect' button.`;
 
@@ -14,6 +14,7 @@ interface PendingRequest {
 export class Context {
   private _ws: WebSocket | undefined;
   private pendingRequests = new Map<string, PendingRequest>();
+  private notificationHandlers = new Set<(notification: JsonRpcNotification) => void>();
 
   get ws(): WebSocket {
     if (!this._ws) {
@@ -28,8 +29,12 @@ export class Context {
     // Set up message handler for incoming WebSocket messages
     this._ws.on("message", (data: Buffer) => {
       try {
-        const response = JSON.parse(data.toString()) as JsonRpcResponse;
-        this.handleResponse(response);
+        const message = JSON.parse(data.toString());
+        if (message.id === undefined && typeof message.method === "string") {
+          this.handleNotification(message as JsonRpcNotification);
+        } else {
+          this.handleResponse(message as JsonRpcResponse);
+        }
       } catch (error) {
         console.error("Failed to parse WebSocket message:", error);
       }
@@ -40,6 +45,19 @@ export class Context {
     return !!this._ws;
   }
 
+  /**
+   * Register a handler for notifications from the extension
+   */
+  onNotification(handler: (notification: JsonRpcNotification) => void): void {
+    this.notificationHandlers.add(handler);
+  }
+
+  private handleNotification(notification: JsonRpcNotification): void {
+    for (const handler of this.notificationHandlers) {
+      handler(notification);
+    }
+  }
+
   private handleResponse(response: JsonRpcResponse): void {
     const pending = this.pendingRequests.get(response.id);
 
@@ -1,21 +1,57 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
+import { config } from "./config.js";
 import { Context } from "./context.js";
 import { createWebSocketServer } from "./ws.js";
+import { readUploadFiles, decodeDownloadContent, formatSize } from "./utils/files.js";
+import { resources, changedResources } from "./resources/browser.js";
 import type {
   SnapshotResult,
   NavigateResult,
   InteractResult,
+  FillFormResult,
+  ScrollResult,
+  ScreenshotResult,
+  GetTextResult,
+  EvaluateResult,
+  ConsoleLog,
   ConsoleResult,
+  TabsResult,
+  DownloadInfo,
+  DownloadsResult,
+  DialogInfo,
+  NetworkRequest,
+  NetworkResult,
+  WaitForResult,
+  StateChangedParams,
 } from "./protocol.js";
 
 import packageJSON from "../package.json" with { type: "json" };
 
 const APP_NAME = "openbrowsermcp";
 
+// Time the extension waits for wait_for conditions unless a timeout is given
+const DEFAULT_WAIT_TIMEOUT = 10000;
+
+// Time the extension waits for a navigation unless a timeout is given
+const DEFAULT_NAVIGATION_TIMEOUT = 30000;
+
+// Time the extension waits for an evaluate result unless a timeout is given
+const DEFAULT_EVALUATE_TIMEOUT = 10000;
+
+// Time the extension waits for a download to finish unless a timeout is given
+const DEFAULT_DOWNLOAD_TIMEOUT = 30000;
+
+// Largest downloaded file whose content is returned
+const MAX_DOWNLOAD_CONTENT_BYTES = 100 * 1024;
+
+// Time allowed for a request itself, on top of any waiting it includes
+const REQUEST_TIMEOUT = 30000;
+
 // Create shared context for WebSocket communication
 const context = new Context();
 
@@ -27,7 +63,7 @@ const server = new McpServer({
 
 // Element selector schema for interact tool
 const ElementSelectorSchema = z.union([
-  z.object({ ref: z.string().describe("ARIA snapshot reference (e.g., 'e1', 'e2')") }),
+  z.object({ ref: z.string().describe("ARIA snapshot reference (e.g., 'kqwme1', 'kqwme2')") }),
   z.object({ css: z.string().describe("CSS selector (e.g., '.submit-btn')") }),
   z.object({
     role: z.string().describe("ARIA role (e.g., 'button')"),
@@ -35,37 +71,166 @@ const ElementSelectorSchema = z.union([
   }),
 ]);
 
+// Conditions for the wait_for tool and the waitFor option of navigate and interact
+const WaitForSchema = z.object({
+  element: ElementSelectorSchema.optional().describe("Element to wait for"),
+  state: z.enum(["visible", "hidden"]).optional().describe("With element: wait for it to be visible (default) or hidden/removed"),
+  text: z.string().optional().describe("Text to wait for on the page"),
+  url: z.string().optional().describe("Regular expression the page URL must match (e.g., '/dashboard')"),
+  domStable: z.boolean().optional().describe("Wait until the DOM has stopped changing for 500ms"),
+  networkIdle: z.boolean().optional().describe("Wait until no network requests have been in flight for 500ms"),
+  timeout: z.number().optional().describe(`Maximum milliseconds to wait (default: ${DEFAULT_WAIT_TIMEOUT})`),
+});
+
+// Options shared by navigate, go_back, go_forward and reload
+const NavigationOptionsShape = {
+  waitUntil: z.enum(["commit", "domcontentloaded", "load", "networkidle"]).optional().describe("When the navigation counts as done: 'commit' (response received), 'domcontentloaded', 'load' (default) or 'networkidle' (load, then no requests for 500ms)"),
+  timeout: z.number().optional().describe(`Maximum milliseconds to wait for the navigation (default: ${DEFAULT_NAVIGATION_TIMEOUT})`),
+  waitFor: WaitForSchema.optional().describe("Conditions to wait for once the navigation is done, before returning"),
+};
+
+/**
+ * Get the RPC timeout for a request that may include a wait
+ */
+function getRequestTimeout(waitFor?: { timeout?: number }, requestTimeout: number = REQUEST_TIMEOUT): number {
+  return waitFor ? requestTimeout + (waitFor.timeout ?? DEFAULT_WAIT_TIMEOUT) : requestTimeout;
+}
+
+/**
+ * Get the RPC timeout for a navigation, which includes its own timeout
+ */
+function getNavigationTimeout(params: { timeout?: number; waitFor?: { timeout?: number } }): number {
+  return getRequestTimeout(params.waitFor, REQUEST_TIMEOUT + (params.timeout ?? DEFAULT_NAVIGATION_TIMEOUT));
+}
+
+/**
+ * Describe where the browser ended up after a navigation
+ */
+function formatNavigation(action: string, result: NavigateResult): string {
+  return `${action} ${result.url}\nPage Title: ${result.title}${formatDialogs(result.dialogs)}`;
+}
+
+/**
+ * Describe a JavaScript dialog (e.g. 'confirm "Delete this item?"')
+ */
+function formatDialog(dialog: DialogInfo): string {
+  const handled = dialog.handled ? ` (${dialog.handled})` : "";
+  return `${dialog.type} ${JSON.stringify(dialog.message)}${handled}`;
+}
+
+/**
+ * List the dialogs the dialog policy handled during a request, if any
+ */
+function formatDialogs(dialogs: DialogInfo[] | undefined): string {
+  if (!dialogs?.length) {
+    return "";
+  }
+  return `\n\nDialogs handled automatically:\n${dialogs.map((dialog) => `- ${formatDialog(dialog)}`).join("\n")}`;
+}
+
+/**
+ * Format page info and ARIA snapshot (full or diff) for tool output
+ */
+function formatSnapshot(result: { url?: string; title?: string; aria?: string; diff?: boolean }): string {
+  const label = result.diff ? "ARIA Snapshot (changes since previous snapshot)" : "ARIA Snapshot";
+  return `- Page URL: ${result.url}
+- Page Title: ${result.title}
+- ${label}:
+\`\`\`
+${result.aria}
+\`\`\``;
+}
+
+/**
+ * Convert a base64 data URL (e.g., "data:image/png;base64,...") into image content
+ */
+function toImageContent(dataUrl: string): { type: "image"; data: string; mimeType: string } {
+  const match = /^data:([^;,]+);base64,/.exec(dataUrl);
+  return {
+    type: "image",
+    data: match ? dataUrl.slice(match[0].length) : dataUrl,
+    mimeType: match ? match[1] : "image/png",
+  };
+}
+
+/**
+ * Format a console log entry as a summary line, followed by its stack trace if present
+ */
+function formatConsoleLog(log: ConsoleLog): string {
+  const timestamp = new Date(log.ts).toISOString();
+  const source = log.source && log.source !== "console" ? ` [${log.source}]` : "";
+  const location = log.location ? ` (${log.location})` : "";
+
+  const lines = [`[${log.level.toUpperCase()}] ${timestamp}:${source} ${log.text}${location}`];
+  if (log.stack) {
+    lines.push(...log.stack.split("\n").map((line) => `    ${line}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format a download as a summary line: state, file, type, size and origin
+ */
+function formatDownload(download: DownloadInfo): string {
+  const size = download.state !== "complete" && download.totalBytes !== undefined
+    ? `${formatSize(download.bytesReceived)} of ${formatSize(download.totalBytes)}`
+    : formatSize(download.bytesReceived);
+  const state = download.state === "interrupted"
+    ? `INTERRUPTED (${download.error ?? "unknown error"})`
+    : download.state;
+  const removed = download.state === "complete" && !download.exists ? " (file removed)" : "";
+
+  return `[${download.id}] ${state} ${download.filename || "(no file yet)"}${removed} (${download.mimeType || "unknown type"}, ${size}) from ${download.url}`;
+}
+
+/**
+ * Format a captured network request as a summary line, followed by its bodies if present
+ */
+function formatNetworkRequest(request: NetworkRequest): string {
+  const timestamp = new Date(request.ts).toISOString();
+  const outcome = request.failed
+    ? `FAILED (${request.failed})`
+    : request.status !== undefined ? String(request.status) : "pending";
+  const details = [request.resourceType];
+  if (request.duration !== undefined) {
+    details.push(`${request.duration}ms`);
+  }
+  if (request.size !== undefined) {
+    details.push(`${request.size} bytes`);
+  }
+
+  const lines = [`[${timestamp}] ${request.method} ${outcome} ${request.url} (${details.join(", ")})`];
+  if (request.requestBody !== undefined) {
+    lines.push(`  Request body: ${request.requestBody}`);
+  }
+  if (request.responseBody !== undefined) {
+    lines.push(`  Response body: ${request.responseBody}`);
+  }
+  return lines.join("\n");
+}
+
 // Register tools
 server.tool(
   "snapshot",
   "Capture the current page's accessibility tree (ARIA snapshot) and screenshot. Returns the page URL, title, structured element tree, and a PNG screenshot.",
   {
     screenshot: z.boolean().optional().default(true).describe("Whether to capture a screenshot (default: true)"),
+    diff: z.boolean().optional().default(false).describe("Only return elements added, removed or changed since the previous snapshot. Falls back to a full snapshot after navigation."),
+    marks: z.boolean().optional().default(false).describe("Draw a labelled box around each interactive element in view on the screenshot, showing its ref from the ARIA snapshot"),
   },
-  async ({ screenshot }) => {
-    const result = await context.sendRpcRequest<SnapshotResult>("snapshot", { screenshot });
+  async ({ screenshot, diff, marks }) => {
+    const result = await context.sendRpcRequest<SnapshotResult>("snapshot", { screenshot, diff, marks });
 
     const content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }> = [
       {
         type: "text",
-        text: `- Page URL: ${result.url}
-- Page Title: ${result.title}
-- ARIA Snapshot:
-\`\`\`
-${result.aria}
-\`\`\``,
+        text: formatSnapshot(result),
       },
     ];
 
     // Add screenshot if present
     if (result.screenshot) {
-      // Remove data URL prefix if present (e.g., "data:image/png;base64,")
-      const base64Data = result.screenshot.replace(/^data:image\/png;base64,/, "");
-      content.push({
-        type: "image",
-        data: base64Data,
-        mimeType: "image/png",
-      });
+      content.push(toImageContent(result.screenshot));
     }
 
     return { content };
@@ -73,37 +238,107 @@ ${result.aria}
 );
 
 server.tool(
-  "navigate",
-  "Navigate the browser to a specified URL. Returns the final URL and page title after navigation.",
+  "screenshot",
+  "Capture a screenshot of the viewport, the full scrollable page, or a single element. Choose PNG, JPEG or WebP and a maximum size to keep large pages within budget.",
   {
-    url: z.string().describe("The URL to navigate to (e.g., 'https://example.com')"),
+    fullPage: z.boolean().optional().default(false).describe("Capture the whole scrollable page instead of the viewport"),
+    element: ElementSelectorSchema.optional().describe("Capture only this element"),
+    format: z.enum(["png", "jpeg", "webp"]).optional().default("png").describe("Image format (default: png)"),
+    quality: z.number().int().min(0).max(100).optional().describe("Compression quality for jpeg and webp (0-100)"),
+    maxWidth: z.number().int().positive().optional().describe("Scale the image down to at most this many pixels wide"),
+    maxHeight: z.number().int().positive().optional().describe("Scale the image down to at most this many pixels high"),
   },
-  async ({ url }) => {
-    const result = await context.sendRpcRequest<NavigateResult>("navigate", { url });
+  async (params) => {
+    const result = await context.sendRpcRequest<ScreenshotResult>("screenshot", params);
     return {
       content: [
-        {
-          type: "text",
-          text: `Navigated to ${result.url}\nPage Title: ${result.title}`,
-        },
+        { type: "text", text: `Screenshot (${result.width}x${result.height})` },
+        toImageContent(result.screenshot),
       ],
     };
   }
 );
 
+server.tool(
+  "navigate",
+  "Navigate the browser to a specified URL. Returns the final URL and page title after navigation. Fails with NAVIGATION_FAILED on network errors (e.g., DNS failure, connection refused).",
+  {
+    url: z.string().describe("The URL to navigate to (e.g., 'https://example.com')"),
+    ...NavigationOptionsShape,
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<NavigateResult>("navigate", params, getNavigationTimeout(params));
+    return {
+      content: [{ type: "text", text: formatNavigation("Navigated to", result) }],
+    };
+  }
+);
+
+server.tool(
+  "go_back",
+  "Go back to the previous page in the tab's history. Returns the URL and page title after navigation.",
+  NavigationOptionsShape,
+  async (params) => {
+    const result = await context.sendRpcRequest<NavigateResult>("go_back", params, getNavigationTimeout(params));
+    return {
+      content: [{ type: "text", text: formatNavigation("Went back to", result) }],
+    };
+  }
+);
+
+server.tool(
+  "go_forward",
+  "Go forward to the next page in the tab's history. Returns the URL and page title after navigation.",
+  NavigationOptionsShape,
+  async (params) => {
+    const result = await context.sendRpcRequest<NavigateResult>("go_forward", params, getNavigationTimeout(params));
+    return {
+      content: [{ type: "text", text: formatNavigation("Went forward to", result) }],
+    };
+  }
+);
+
+server.tool(
+  "reload",
+  "Reload the current page. Returns the URL and page title after reloading.",
+  NavigationOptionsShape,
+  async (params) => {
+    const result = await context.sendRpcRequest<NavigateResult>("reload", params, getNavigationTimeout(params));
+    return {
+      content: [{ type: "text", text: formatNavigation("Reloaded", result) }],
+    };
+  }
+);
+
 server.tool(
   "interact",
-  "Perform browser interactions: click, type, hover, select, or press keys. Optionally capture an ARIA snapshot after the interaction.",
+  "Perform browser interactions: click, type, hover, select, press keys, upload files, or drag and drop. Optionally capture an ARIA snapshot after the interaction.",
   {
-    action: z.enum(["click", "type", "hover", "select", "press"]).describe("The type of interaction to perform"),
-    element: ElementSelectorSchema.optional().describe("Element selector (required for click, type, hover, select)"),
+    action: z.enum(["click", "type", "hover", "select", "press", "upload", "drag"]).describe("The type of interaction to perform"),
+    element: ElementSelectorSchema.optional().describe("Element selector (required for click, type, hover, select, upload, drag; for press, the element to focus first)"),
     text: z.string().optional().describe("Text to type (required for action='type')"),
-    key: z.string().optional().describe("Key to press (required for action='press', e.g., 'Enter', 'Escape')"),
+    mode: z.enum(["replace", "append", "clear"]).optional().describe("For action='type': replace existing content (default; empty text clears the field), append to it, or clear it first"),
+    delay: z.number().optional().describe("For action='type': milliseconds to wait between keystrokes"),
+    key: z.string().optional().describe("Key or chord to press (required for action='press', e.g., 'Enter', 'Escape', 'Control+A', 'Shift+Tab', 'ControlOrMeta+Enter')"),
+    repeat: z.number().int().min(1).optional().describe("For action='press': number of times to press the key (default: 1)"),
     value: z.string().optional().describe("Option value to select (required for action='select')"),
+    files: z.array(z.string()).optional().describe("For action='upload': paths of files in the server's upload directory (UPLOAD_DIR), relative to it. The element can be a file input or a drop zone."),
+    target: ElementSelectorSchema.optional().describe("For action='drag': element to drop the dragged element on (e.g., a list or column)"),
+    offset: z.object({ x: z.number(), y: z.number() }).optional().describe("For action='drag': CSS pixels to drag by instead of onto a target (e.g., { x: 50, y: 0 } to move a slider right)"),
     snapshot: z.boolean().optional().default(false).describe("Whether to capture ARIA snapshot after interaction"),
+    diff: z.boolean().optional().default(false).describe("With snapshot: only return changes since the previous snapshot"),
+    waitFor: WaitForSchema.optional().describe("Conditions to wait for after the interaction, before the snapshot is taken"),
   },
   async (params) => {
-    const result = await context.sendRpcRequest<InteractResult>("interact", params);
+    const files = params.action === "upload"
+      ? await readUploadFiles(params.files ?? [], config.uploadDir, config.maxUploadBytes)
+      : undefined;
+
+    const result = await context.sendRpcRequest<InteractResult>(
+      "interact",
+      { ...params, files, input: config.inputBackend },
+      getRequestTimeout(params.waitFor)
+    );
 
     // Build response message
     let message = "";
@@ -112,7 +347,9 @@ server.tool(
         message = "Clicked element";
         break;
       case "type":
-        message = `Typed "${params.text}" into element`;
+        message = params.mode === "append"
+          ? `Appended "${params.text}" to element`
+          : `Typed "${params.text}" into element`;
         break;
       case "hover":
         message = "Hovered over element";
@@ -121,9 +358,22 @@ server.tool(
         message = `Selected option "${params.value}" in element`;
         break;
       case "press":
-        message = `Pressed key "${params.key}"`;
+        message = params.repeat && params.repeat > 1
+          ? `Pressed key "${params.key}" ${params.repeat} times`
+          : `Pressed key "${params.key}"`;
+        break;
+      case "upload": {
+        const names = files!.map((file) => `${file.name} (${formatSize(Buffer.byteLength(file.data, "base64"))})`);
+        message = `Uploaded ${names.join(", ")}`;
+        break;
+      }
+      case "drag":
+        message = params.target
+          ? "Dragged element onto target"
+          : `Dragged element by (${params.offset?.x}, ${params.offset?.y})`;
         break;
     }
+    message += formatDialogs(result.dialogs);
 
     // If snapshot was requested, include ARIA tree
     if (params.snapshot && result.aria) {
@@ -133,12 +383,7 @@ server.tool(
             type: "text",
             text: `${message}
 
-- Page URL: ${result.url}
-- Page Title: ${result.title}
-- ARIA Snapshot:
-\`\`\`
-${result.aria}
-\`\`\``,
+${formatSnapshot(result)}`,
           },
         ],
       };
@@ -150,17 +395,183 @@ ${result.aria}
   }
 );
 
+server.tool(
+  "fill_form",
+  "Fill several form fields in one call. Text fields are typed into, selects get the option with the given value or label, checkboxes and switches are set to true or false, radio buttons are chosen by value or label, and date, number and range inputs are set directly. Returns the result of each field and any validation messages the page shows afterwards. Does not submit the form.",
+  {
+    fields: z.array(z.object({
+      element: ElementSelectorSchema.describe("The field: input, textarea, select, checkbox, radio button, radio group or contenteditable"),
+      value: z.union([z.string(), z.boolean(), z.array(z.string())]).describe("Text; true/false for checkboxes; option value or label for selects and radio groups; a list of options for multiple selects; 'YYYY-MM-DD' for dates"),
+    })).min(1).describe("Fields to fill, in order"),
+    snapshot: z.boolean().optional().default(false).describe("Whether to capture ARIA snapshot after filling"),
+    diff: z.boolean().optional().default(false).describe("With snapshot: only return changes since the previous snapshot"),
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<FillFormResult>("fill_form", { ...params, input: config.inputBackend });
+
+    const failed = result.fields.filter((field) => !field.success).length;
+    const lines = [`Filled ${result.fields.length - failed} of ${result.fields.length} fields`];
+    for (const field of result.fields) {
+      const outcome = field.success ? `= ${JSON.stringify(field.value)}` : `failed: ${field.error}`;
+      const validation = field.validationMessage ? ` (invalid: ${field.validationMessage})` : "";
+      lines.push(`- ${JSON.stringify(field.element)} ${outcome}${validation}`);
+    }
+    if (result.messages.length > 0) {
+      lines.push("", "Page messages:", ...result.messages.map((text) => `- ${text}`));
+    }
+
+    let message = lines.join("\n") + formatDialogs(result.dialogs);
+    if (params.snapshot && result.aria) {
+      message += `\n\n${formatSnapshot(result)}`;
+    }
+
+    return {
+      content: [{ type: "text", text: message }],
+    };
+  }
+);
+
+server.tool(
+  "scroll",
+  "Scroll the page or a scroll container by pages or pixels, to the top or bottom, or until an element is in view. Reports the new scroll position and whether more content loaded. Use repeat to keep scrolling infinite feeds until no new content appears.",
+  {
+    element: ElementSelectorSchema.optional().describe("Scroll container, or an element inside it (defaults to the page)"),
+    direction: z.enum(["down", "up", "left", "right"]).optional().describe("Direction to scroll (default: down)"),
+    amount: z.number().positive().optional().describe("Distance to scroll in units (default: 1)"),
+    unit: z.enum(["pages", "pixels"]).optional().describe("Unit of amount: 'pages' (the visible height or width, default) or 'pixels'"),
+    to: z.enum(["top", "bottom"]).optional().describe("Scroll to the top or bottom instead of by an amount"),
+    target: ElementSelectorSchema.optional().describe("Scroll until this element is in view instead"),
+    repeat: z.number().int().min(1).max(10).optional().describe("Scroll up to this many times, stopping at the end once no new content loads (default: 1)"),
+    snapshot: z.boolean().optional().default(false).describe("Whether to capture ARIA snapshot after scrolling"),
+    diff: z.boolean().optional().default(false).describe("With snapshot: only return changes since the previous snapshot"),
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<ScrollResult>("scroll", params);
+
+    const times = result.scrolls === 1 ? "once" : `${result.scrolls} times`;
+    const lines = [
+      `Scrolled ${times} to x=${result.x}, y=${result.y} (scrollable size ${result.scrollWidth}x${result.scrollHeight})`,
+      result.newContent ? "New content loaded" : "No new content loaded",
+    ];
+    if (result.atEnd) {
+      lines.push("Reached the end");
+    }
+
+    let message = lines.join("\n");
+    if (params.snapshot && result.aria) {
+      message += `\n\n${formatSnapshot(result)}`;
+    }
+
+    return {
+      content: [{ type: "text", text: message }],
+    };
+  }
+);
+
+server.tool(
+  "get_text",
+  "Read the text of the page as Markdown: headings, paragraphs, lists, tables and links, which the ARIA snapshot leaves out. By default returns the main content without navigation, sidebars, headers, footers and buttons; pass an element to read just that part. Links include their ref as the link title, e.g. [Pricing](https://example.com/pricing \"kqwme12\"). Long text is cut off; pass the returned offset to continue.",
+  {
+    element: ElementSelectorSchema.optional().describe("Element to read (defaults to the page's main content)"),
+    maxLength: z.number().int().positive().optional().describe("Maximum characters to return (default: 20000)"),
+    offset: z.number().int().min(0).optional().describe("Character offset to continue from, as returned by a previous call"),
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<GetTextResult>("get_text", params);
+
+    let message = `- Page URL: ${result.url}\n- Page Title: ${result.title}\n\n${result.text || "(no text)"}`;
+    if (result.nextOffset !== undefined) {
+      message += `\n\n[Showing characters ${result.offset}-${result.nextOffset} of ${result.totalLength}. Call get_text with offset: ${result.nextOffset} to continue.]`;
+    }
+
+    return {
+      content: [{ type: "text", text: message }],
+    };
+  }
+);
+
+// Runs arbitrary code in the user's browser, so only offered when enabled in the server configuration
+if (config.allowEvaluate) {
+  server.tool(
+    "evaluate",
+    "Run JavaScript in the page's main world and return the result as JSON. Use it to read state that is not in the DOM, such as window.__APP_STATE__ or a feature flag. Pass an expression, or a function (sync or async) to call. Promises are awaited and top-level await is allowed. Exceptions are returned with their stack trace.",
+    {
+      expression: z.string().describe("Expression or function to run (e.g., 'window.__APP_STATE__.user', 'document.querySelectorAll(\"li\").length', 'async () => (await fetch(\"/api/me\")).json()')"),
+      maxLength: z.number().int().positive().optional().describe("Maximum characters of the result to return (default: 10000)"),
+      timeout: z.number().positive().optional().describe("Maximum milliseconds to wait for the result (default: 10000)"),
+    },
+    async (params) => {
+      const result = await context.sendRpcRequest<EvaluateResult>(
+        "evaluate",
+        params,
+        REQUEST_TIMEOUT + (params.timeout ?? DEFAULT_EVALUATE_TIMEOUT)
+      );
+
+      if (result.exception !== undefined) {
+        return {
+          content: [{ type: "text", text: `Evaluation threw an exception:\n${result.exception}` }],
+          isError: true,
+        };
+      }
+
+      let message = `Result (${result.type}):\n${result.value}`;
+      if (result.truncated) {
+        message += `\n\n[Truncated: showing ${result.value?.length} of ${result.length} characters]`;
+      }
+
+      return {
+        content: [{ type: "text", text: message }],
+      };
+    }
+  );
+}
+
 server.tool(
   "console",
-  "Retrieve console logs from the browser page. Returns all captured console messages with their level, timestamp, and text.",
-  {},
-  async () => {
-    const result = await context.sendRpcRequest<ConsoleResult>("console", {});
-
-    const formattedLogs = result.logs
-      .map((log) => {
-        const timestamp = new Date(log.ts).toISOString();
-        return `[${log.level.toUpperCase()}] ${timestamp}: ${log.text}`;
+  "Retrieve console logs from the browser page. Returns the page's console messages, uncaught errors, unhandled promise rejections, and browser messages such as failed resource loads and CSP violations, with their level, timestamp, text, source location and stack trace. Filter by level, time or text, and pass the returned cursor to get only entries logged since the previous call.",
+  {
+    level: z.enum(["debug", "log", "info", "warn", "error"]).optional().describe("Minimum level to return (debug < log/info < warn < error)"),
+    since: z.number().optional().describe("Only entries logged at or after this time (epoch milliseconds)"),
+    cursor: z.number().optional().describe("Only entries after this cursor, as returned by a previous call"),
+    text: z.string().optional().describe("Case-insensitive regular expression matched against the message text"),
+    limit: z.number().int().min(1).optional().describe("Maximum number of entries to return, oldest first (default 100)"),
+    clear: z.boolean().optional().describe("Remove the returned entries (and everything before the returned cursor) after reading"),
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<ConsoleResult>("console", params);
+
+    const formattedLogs = result.logs.map(formatConsoleLog).join("\n");
+    const next = result.hasMore
+      ? `More entries available: call again with cursor: ${result.cursor}`
+      : `Cursor: ${result.cursor} (pass as cursor to get only newer entries)`;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${formattedLogs || "No console logs captured"}\n\n${next}`,
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  "tabs",
+  "Manage the browser tabs under control: list them, open a new tab, switch which tab other tools act on, or close a tab. Popups and target=_blank tabs opened by a controlled tab are tracked automatically.",
+  {
+    action: z.enum(["list", "open", "switch", "close"]).describe("The tab operation to perform"),
+    tabId: z.number().optional().describe("Tab ID (required for action='switch'; for action='close', defaults to the current tab)"),
+    url: z.string().optional().describe("URL to open (for action='open', defaults to about:blank)"),
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<TabsResult>("tabs", params);
+
+    const formattedTabs = result.tabs
+      .map((tab) => {
+        const marker = tab.target ? "*" : " ";
+        const opener = tab.openerTabId !== undefined ? ` (opened by ${tab.openerTabId})` : "";
+        return `${marker} [${tab.id}] ${tab.title || "(untitled)"} - ${tab.url}${opener}`;
       })
       .join("\n");
 
@@ -168,13 +579,186 @@ server.tool(
       content: [
         {
           type: "text",
-          text: formattedLogs || "No console logs captured",
+          text: formattedTabs
+            ? `Tabs (* = current target):\n${formattedTabs}`
+            : "No controlled tabs",
         },
       ],
     };
   }
 );
 
+server.tool(
+  "handle_dialog",
+  "Accept or dismiss the JavaScript dialog (alert, confirm, prompt or beforeunload) open in the current tab. While a dialog is open the page is blocked and other tools fail with a DIALOG_OPEN error that shows its type and message.",
+  {
+    action: z.enum(["accept", "dismiss"]).describe("Accept (OK, or leave the page for beforeunload) or dismiss (Cancel, or stay on the page)"),
+    promptText: z.string().optional().describe("For prompt dialogs: text to enter before accepting (default: the prompt's default text)"),
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<DialogInfo>("handle_dialog", params);
+    const input = result.type === "prompt" && params.action === "accept"
+      ? ` with ${JSON.stringify(params.promptText ?? result.defaultPrompt ?? "")}`
+      : "";
+
+    return {
+      content: [{ type: "text", text: `${params.action === "accept" ? "Accepted" : "Dismissed"} ${formatDialog({ ...result, handled: undefined })}${input}` }],
+    };
+  }
+);
+
+server.tool(
+  "downloads",
+  "Track files downloaded by the current tab, e.g. after clicking 'Export CSV'. action='list' shows the tab's downloads with their state, file path, MIME type and size. action='wait' waits for a download to finish (by default the next one not returned by a previous wait, even if it has not started yet) and returns its details and, for small text and image files, its content.",
+  {
+    action: z.enum(["list", "wait"]).describe("List the tab's downloads, or wait for one to finish"),
+    id: z.number().optional().describe("Download ID to wait for (default: the next download of the tab)"),
+    timeout: z.number().positive().optional().describe(`Milliseconds to wait for the download to start and finish (default ${DEFAULT_DOWNLOAD_TIMEOUT})`),
+    includeContent: z.boolean().optional().describe(`Return the content of the finished file if it is text or an image of at most ${formatSize(MAX_DOWNLOAD_CONTENT_BYTES)} (default true)`),
+  },
+  async (params) => {
+    const timeout = params.action === "wait"
+      ? REQUEST_TIMEOUT + (params.timeout ?? DEFAULT_DOWNLOAD_TIMEOUT)
+      : REQUEST_TIMEOUT;
+    const result = await context.sendRpcRequest<DownloadsResult>(
+      "downloads",
+      { ...params, includeContent: params.includeContent !== false, maxContentBytes: MAX_DOWNLOAD_CONTENT_BYTES },
+      timeout
+    );
+
+    if (params.action === "list") {
+      const formattedDownloads = result.downloads.map(formatDownload).join("\n");
+      return {
+        content: [{ type: "text", text: formattedDownloads || "No downloads started by this tab" }],
+      };
+    }
+
+    const [download] = result.downloads;
+    const summary = formatDownload(download);
+    if (download.content === undefined) {
+      const skipped = download.contentSkipped ? `\n\nContent not included: ${download.contentSkipped}` : "";
+      return {
+        content: [{ type: "text", text: `${summary}${skipped}` }],
+      };
+    }
+
+    const fileContent = decodeDownloadContent(download.content, download.filename, download.mimeType);
+    switch (fileContent.type) {
+      case "image":
+        return {
+          content: [
+            { type: "text", text: summary },
+            { type: "image", data: fileContent.data, mimeType: fileContent.mimeType },
+          ],
+        };
+      case "text":
+        return {
+          content: [{ type: "text", text: `${summary}\n\nContent:\n\`\`\`\n${fileContent.text}\n\`\`\`` }],
+        };
+      default:
+        return {
+          content: [{ type: "text", text: `${summary}\n\nContent not included: ${fileContent.reason}` }],
+        };
+    }
+  }
+);
+
+server.tool(
+  "network",
+  "Retrieve network requests made by the current tab (XHR/fetch, documents, scripts, etc.) with method, status, timing and size. Filter by URL pattern, status or time window, and optionally include request and response bodies to debug API calls.",
+  {
+    url: z.string().optional().describe("Regular expression matched against request URLs (e.g., '/api/')"),
+    status: z.string().optional().describe("Status filter: exact code ('422'), class ('4xx', '5xx') or 'failed' for requests that got no response"),
+    since: z.number().optional().describe("Only requests started at or after this time (epoch milliseconds)"),
+    until: z.number().optional().describe("Only requests started at or before this time (epoch milliseconds)"),
+    limit: z.number().int().min(1).optional().describe("Return at most this many of the most recent matching requests"),
+    includeBodies: z.boolean().optional().describe("Include request and response bodies (truncated to 10000 characters)"),
+  },
+  async (params) => {
+    const result = await context.sendRpcRequest<NetworkResult>("network", params);
+
+    const formattedRequests = result.requests.map(formatNetworkRequest).join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: formattedRequests || "No network requests captured",
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  "wait_for",
+  "Wait until the page is ready: an element appears or disappears, text is shown, the URL matches a pattern, the DOM stops changing, or the network goes idle. All given conditions must be met. Fails with a TIMEOUT error listing the conditions still pending.",
+  WaitForSchema.shape,
+  async (params) => {
+    const result = await context.sendRpcRequest<WaitForResult>("wait_for", params, getRequestTimeout(params));
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Conditions met after ${result.elapsed}ms\nPage: ${result.title} - ${result.url}`,
+        },
+      ],
+    };
+  }
+);
+
+// Register resources
+for (const resource of resources) {
+  const { uri, name, description, mimeType } = resource.schema;
+  server.resource(name, uri, { description, mimeType }, async (resourceUri) => ({
+    contents: (await resource.read(context, resourceUri.href)).map((content) =>
+      content.blob !== undefined
+        ? { uri: content.uri, mimeType: content.mimeType, blob: content.blob }
+        : { uri: content.uri, mimeType: content.mimeType, text: content.text ?? "" }
+    ),
+  }));
+}
+
+// URIs of the resources clients subscribed to
+const subscriptions = new Set<string>();
+
+server.server.registerCapabilities({ resources: { subscribe: true } });
+
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  if (!resources.some((resource) => resource.schema.uri === request.params.uri)) {
+    throw new Error(`Unknown resource: ${request.params.uri}`);
+  }
+  subscriptions.add(request.params.uri);
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscriptions.delete(request.params.uri);
+  return {};
+});
+
+/**
+ * Notify subscribers that resources changed
+ */
+function sendResourcesUpdated(uris: string[]): void {
+  for (const uri of uris) {
+    if (subscriptions.has(uri)) {
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error("Failed to send resource update:", error);
+      });
+    }
+  }
+}
+
+// The extension reports when the page, its console logs or the tabs changed
+context.onNotification((notification) => {
+  if (notification.method === "state_changed") {
+    const { changes } = notification.params as StateChangedParams;
+    sendResourcesUpdated(changes.flatMap((change) => changedResources[change] ?? []));
+  }
+});
+
 // Main entry point
 async function main() {
   // Set up WebSocket server for browser extension communication
@@ -185,6 +769,17 @@ async function main() {
       context.ws.close();
     }
     context.ws = websocket;
+
+    // Tell the extension how to handle dialogs that open between requests, and when to start capturing
+    context.sendRpcRequest("configure", {
+      dialogPolicy: config.dialogPolicy,
+      debuggerCapture: config.debuggerCapture,
+    }).catch((error) => {
+      console.error("Failed to configure the extension:", error);
+    });
+
+    // A new connection may be to another tab, so every resource may have changed
+    sendResourcesUpdated(Array.from(subscriptions));
   });
 
   // Set up exit watchdog
@@ -35,9 +35,11 @@ export type ElementSelector = z.infer<typeof ElementSelectorSchema>;
 export enum ErrorCode {
   ELEMENT_NOT_FOUND = 'ELEMENT_NOT_FOUND',
   ELEMENT_AMBIGUOUS = 'ELEMENT_AMBIGUOUS',
+  STALE_REF = 'STALE_REF',
   TIMEOUT = 'TIMEOUT',
   NO_TAB = 'NO_TAB',
   NAVIGATION_FAILED = 'NAVIGATION_FAILED',
+  DIALOG_OPEN = 'DIALOG_OPEN',
 }
 
 export const ErrorCodeSchema = z.nativeEnum(ErrorCode);
@@ -63,9 +65,24 @@ export const JsonRpcResponseSchema = z.object({
   error: JsonRpcErrorSchema.optional(),
 });
 
+// Sent by the extension without an ID, e.g. when the page changed
+export const JsonRpcNotificationSchema = z.object({
+  method: z.string(),
+  params: z.record(z.string(), z.unknown()),
+});
+
+export const StateChangeSchema = z.enum(['page', 'console', 'tabs']);
+
+export const StateChangedParamsSchema = z.object({
+  changes: z.array(StateChangeSchema),
+});
+
 export type JsonRpcRequest = z.infer<typeof JsonRpcRequestSchema>;
 export type JsonRpcError = z.infer<typeof JsonRpcErrorSchema>;
 export type JsonRpcResponse = z.infer<typeof JsonRpcResponseSchema>;
+export type JsonRpcNotification = z.infer<typeof JsonRpcNotificationSchema>;
+export type StateChange = z.infer<typeof StateChangeSchema>;
+export type StateChangedParams = z.infer<typeof StateChangedParamsSchema>;
 
 // ============================================================================
 // Tool Parameter Types
@@ -73,27 +90,181 @@ export type JsonRpcResponse = z.infer<typeof JsonRpcResponseSchema>;
 
 export const SnapshotParamsSchema = z.object({
   screenshot: z.boolean().optional().default(true),
+  diff: z.boolean().optional().default(false),
+  marks: z.boolean().optional().default(false), // Label interactive elements on the screenshot with their refs
+  remember: z.boolean().optional().default(true), // Make this the baseline of the next diff
+});
+
+export const WaitForConditionSchema = z.object({
+  element: ElementSelectorSchema.optional(),
+  state: z.enum(['visible', 'hidden']).optional(),
+  text: z.string().optional(),
+  url: z.string().optional(), // Regular expression matched against the page URL
+  domStable: z.boolean().optional(),
+  networkIdle: z.boolean().optional(),
+  timeout: z.number().optional(), // Milliseconds
+});
+
+export const WaitUntilSchema = z.enum(['commit', 'domcontentloaded', 'load', 'networkidle']);
+
+export const NavigationParamsSchema = z.object({
+  waitUntil: WaitUntilSchema.optional(),
+  timeout: z.number().optional(), // Milliseconds
+  waitFor: WaitForConditionSchema.optional(),
 });
 
-export const NavigateParamsSchema = z.object({
+export const NavigateParamsSchema = NavigationParamsSchema.extend({
   url: z.string(),
 });
 
+export const InputBackendSchema = z.enum(['synthetic', 'debugger']);
+
+export const UploadFileSchema = z.object({
+  name: z.string(),
+  mimeType: z.string(),
+  data: z.string(), // Base64
+  lastModified: z.number().optional(), // Epoch milliseconds
+});
+
 export const InteractParamsSchema = z.object({
   action: z.string(),
   element: ElementSelectorSchema,
   text: z.string().optional(),
+  mode: z.enum(['replace', 'append', 'clear']).optional(),
+  delay: z.number().optional(),
   key: z.string().optional(),
+  repeat: z.number().int().min(1).optional(),
   value: z.string().optional(),
   snapshot: z.boolean().optional(),
+  diff: z.boolean().optional(),
+  input: InputBackendSchema.optional(),
+  files: z.array(UploadFileSchema).optional(), // For upload action
+  target: ElementSelectorSchema.optional(), // For drag action: element to drop on
+  offset: z.object({ x: z.number(), y: z.number() }).optional(), // For drag action: CSS pixels, instead of a target
+  waitFor: WaitForConditionSchema.optional(),
+});
+
+export const FieldValueSchema = z.union([z.string(), z.boolean(), z.array(z.string())]);
+
+export const FillFormParamsSchema = z.object({
+  fields: z.array(z.object({
+    element: ElementSelectorSchema,
+    value: FieldValueSchema,
+  })).min(1),
+  snapshot: z.boolean().optional(),
+  diff: z.boolean().optional(),
+  input: InputBackendSchema.optional(),
+});
+
+export const ScrollParamsSchema = z.object({
+  element: ElementSelectorSchema.optional(), // Scroll container (default: the page)
+  direction: z.enum(['down', 'up', 'left', 'right']).optional(),
+  amount: z.number().positive().optional(),
+  unit: z.enum(['pages', 'pixels']).optional(),
+  to: z.enum(['top', 'bottom']).optional(),
+  target: ElementSelectorSchema.optional(), // Scroll until this element is in view
+  repeat: z.number().int().min(1).optional(),
+  snapshot: z.boolean().optional(),
+  diff: z.boolean().optional(),
 });
 
-export const ConsoleParamsSchema = z.object({});
+export const ScreenshotFormatSchema = z.enum(['png', 'jpeg', 'webp']);
+
+export const ScreenshotParamsSchema = z.object({
+  fullPage: z.boolean().optional(),
+  element: ElementSelectorSchema.optional(), // Clip to this element
+  format: ScreenshotFormatSchema.optional(),
+  quality: z.number().int().min(0).max(100).optional(), // JPEG and WebP only
+  maxWidth: z.number().int().positive().optional(), // Pixels
+  maxHeight: z.number().int().positive().optional(),
+});
+
+export const GetTextParamsSchema = z.object({
+  element: ElementSelectorSchema.optional(), // Default: the page's main content
+  maxLength: z.number().int().positive().optional(), // Characters
+  offset: z.number().int().min(0).optional(), // From nextOffset of a previous result
+});
+
+export const EvaluateParamsSchema = z.object({
+  expression: z.string(), // Expression, or function to call
+  maxLength: z.number().int().positive().optional(), // Characters of the serialized result
+  timeout: z.number().positive().optional(), // Milliseconds
+});
+
+export const ConsoleLevelSchema = z.enum(['debug', 'log', 'info', 'warn', 'error']);
+
+export const ConsoleParamsSchema = z.object({
+  level: ConsoleLevelSchema.optional(), // Minimum level
+  since: z.number().optional(), // Epoch milliseconds
+  cursor: z.number().optional(), // From a previous result
+  text: z.string().optional(), // Case-insensitive regular expression
+  limit: z.number().int().min(1).optional(),
+  clear: z.boolean().optional(),
+});
+
+export const TabsParamsSchema = z.object({
+  action: z.enum(['list', 'open', 'switch', 'close']),
+  tabId: z.number().optional(),
+  url: z.string().optional(),
+});
+
+export const HandleDialogParamsSchema = z.object({
+  action: z.enum(['accept', 'dismiss']),
+  promptText: z.string().optional(), // Text to enter into a prompt dialog
+});
+
+export const DialogPolicySchema = z.enum(['accept', 'dismiss', 'ask']);
+
+export const DebuggerCaptureSchema = z.enum(['auto', 'always']);
+
+export const ConfigureParamsSchema = z.object({
+  dialogPolicy: DialogPolicySchema.optional(),
+  debuggerCapture: DebuggerCaptureSchema.optional(),
+});
+
+export const DownloadsParamsSchema = z.object({
+  action: z.enum(['list', 'wait']),
+  id: z.number().optional(), // Download to wait for
+  timeout: z.number().positive().optional(), // Milliseconds
+  includeContent: z.boolean().optional(), // For wait: return the content of the finished file (default true)
+  maxContentBytes: z.number().optional(), // Largest file whose content is returned
+});
+
+export const WaitForParamsSchema = WaitForConditionSchema;
+
+export const NetworkParamsSchema = z.object({
+  url: z.string().optional(), // Regular expression matched against request URLs
+  status: z.string().optional(), // Exact code ('404'), class ('4xx') or 'failed'
+  since: z.number().optional(), // Epoch milliseconds
+  until: z.number().optional(),
+  limit: z.number().int().min(1).optional(),
+  includeBodies: z.boolean().optional(),
+});
 
 export type SnapshotParams = z.infer<typeof SnapshotParamsSchema>;
+export type WaitUntil = z.infer<typeof WaitUntilSchema>;
+export type NavigationParams = z.infer<typeof NavigationParamsSchema>;
 export type NavigateParams = z.infer<typeof NavigateParamsSchema>;
+export type InputBackend = z.infer<typeof InputBackendSchema>;
+export type UploadFile = z.infer<typeof UploadFileSchema>;
 export type InteractParams = z.infer<typeof InteractParamsSchema>;
+export type FieldValue = z.infer<typeof FieldValueSchema>;
+export type FillFormParams = z.infer<typeof FillFormParamsSchema>;
+export type ScrollParams = z.infer<typeof ScrollParamsSchema>;
+export type ScreenshotFormat = z.infer<typeof ScreenshotFormatSchema>;
+export type ScreenshotParams = z.infer<typeof ScreenshotParamsSchema>;
+export type GetTextParams = z.infer<typeof GetTextParamsSchema>;
+export type EvaluateParams = z.infer<typeof EvaluateParamsSchema>;
 export type ConsoleParams = z.infer<typeof ConsoleParamsSchema>;
+export type TabsParams = z.infer<typeof TabsParamsSchema>;
+export type DownloadsParams = z.infer<typeof DownloadsParamsSchema>;
+export type HandleDialogParams = z.infer<typeof HandleDialogParamsSchema>;
+export type DialogPolicy = z.infer<typeof DialogPolicySchema>;
+export type DebuggerCapture = z.infer<typeof DebuggerCaptureSchema>;
+export type ConfigureParams = z.infer<typeof ConfigureParamsSchema>;
+export type NetworkParams = z.infer<typeof NetworkParamsSchema>;
+export type WaitForCondition = z.infer<typeof WaitForConditionSchema>;
+export type WaitForParams = z.infer<typeof WaitForParamsSchema>;
 
 // ============================================================================
 // Response Types
@@ -103,12 +274,22 @@ export const SnapshotResultSchema = z.object({
   url: z.string(),
   title: z.string(),
   aria: z.string(),
+  diff: z.boolean().optional(), // aria only contains changes since the previous snapshot
   screenshot: z.string().optional(), // Base64 PNG data URL
 });
 
+export const DialogInfoSchema = z.object({
+  type: z.enum(['alert', 'confirm', 'prompt', 'beforeunload']),
+  message: z.string(),
+  url: z.string(), // Page that opened the dialog
+  defaultPrompt: z.string().optional(),
+  handled: z.enum(['accepted', 'dismissed']).optional(),
+});
+
 export const NavigateResultSchema = z.object({
   url: z.string(),
   title: z.string(),
+  dialogs: z.array(DialogInfoSchema).optional(), // Handled by the dialog policy
 });
 
 export const InteractResultSchema = z.object({
@@ -116,20 +297,154 @@ export const InteractResultSchema = z.object({
   url: z.string().optional(),
   title: z.string().optional(),
   aria: z.string().optional(),
+  diff: z.boolean().optional(),
+  dialogs: z.array(DialogInfoSchema).optional(), // Handled by the dialog policy
+});
+
+export const FieldResultSchema = z.object({
+  element: ElementSelectorSchema,
+  success: z.boolean(),
+  value: z.string().optional(), // Value of the field afterwards
+  error: z.string().optional(),
+  validationMessage: z.string().optional(),
+});
+
+export const FillFormResultSchema = z.object({
+  fields: z.array(FieldResultSchema),
+  messages: z.array(z.string()), // Alerts shown on the page after filling
+  url: z.string().optional(),
+  title: z.string().optional(),
+  aria: z.string().optional(),
+  diff: z.boolean().optional(),
+  dialogs: z.array(DialogInfoSchema).optional(), // Handled by the dialog policy
+});
+
+export const ScrollResultSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  scrollWidth: z.number(),
+  scrollHeight: z.number(),
+  atEnd: z.boolean(), // Cannot scroll further in the requested direction
+  newContent: z.boolean(), // Elements were added while scrolling
+  scrolls: z.number(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  aria: z.string().optional(),
+  diff: z.boolean().optional(),
+});
+
+export const ScreenshotResultSchema = z.object({
+  screenshot: z.string(), // Base64 data URL
+  width: z.number(), // Pixels
+  height: z.number(),
+});
+
+export const GetTextResultSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  text: z.string(), // Markdown
+  offset: z.number(),
+  totalLength: z.number(),
+  nextOffset: z.number().optional(), // Set if the text was cut off
+});
+
+export const EvaluateResultSchema = z.object({
+  type: z.string().optional(), // e.g. 'object', 'array', 'string'
+  value: z.string().optional(), // JSON
+  length: z.number().optional(), // Characters in the whole serialized value
+  truncated: z.boolean().optional(),
+  exception: z.string().optional(), // Error thrown, with its stack trace
 });
 
 export const ConsoleLogSchema = z.object({
   level: z.string(),
   ts: z.number(),
   text: z.string(),
+  source: z.string().optional(), // 'console', 'exception', or a browser category such as 'network' or 'security'
+  location: z.string().optional(), // url:line:column
+  stack: z.string().optional(),
 });
 
 export const ConsoleResultSchema = z.object({
   logs: z.array(ConsoleLogSchema),
+  cursor: z.number(),
+  hasMore: z.boolean(),
+});
+
+export const TabInfoSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  title: z.string(),
+  target: z.boolean(),
+  openerTabId: z.number().optional(),
+});
+
+export const TabsResultSchema = z.object({
+  targetTabId: z.number().nullable(),
+  tabs: z.array(TabInfoSchema),
+});
+
+export const DownloadInfoSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  filename: z.string(), // Absolute path on the browser's machine
+  mimeType: z.string(),
+  state: z.enum(['in_progress', 'interrupted', 'complete']),
+  bytesReceived: z.number(),
+  totalBytes: z.number().optional(),
+  startTime: z.number(), // Epoch milliseconds
+  endTime: z.number().optional(),
+  error: z.string().optional(), // Why the download was interrupted
+  exists: z.boolean(),
+  content: z.string().optional(), // Base64 content of the file, for wait with includeContent
+  contentSkipped: z.string().optional(), // Why the content was not returned
+});
+
+export const DownloadsResultSchema = z.object({
+  downloads: z.array(DownloadInfoSchema),
+});
+
+export const NetworkRequestSchema = z.object({
+  ts: z.number(),
+  method: z.string(),
+  url: z.string(),
+  resourceType: z.string(),
+  status: z.number().optional(),
+  statusText: z.string().optional(),
+  mimeType: z.string().optional(),
+  duration: z.number().optional(), // Milliseconds
+  size: z.number().optional(), // Bytes transferred
+  failed: z.string().optional(), // Error text if the request failed
+  requestBody: z.string().optional(),
+  responseBody: z.string().optional(),
+});
+
+export const NetworkResultSchema = z.object({
+  requests: z.array(NetworkRequestSchema),
+});
+
+export const WaitForResultSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  elapsed: z.number(), // Milliseconds waited
 });
 
 export type SnapshotResult = z.infer<typeof SnapshotResultSchema>;
+export type DialogInfo = z.infer<typeof DialogInfoSchema>;
 export type NavigateResult = z.infer<typeof NavigateResultSchema>;
 export type InteractResult = z.infer<typeof InteractResultSchema>;
+export type FieldResult = z.infer<typeof FieldResultSchema>;
+export type FillFormResult = z.infer<typeof FillFormResultSchema>;
+export type ScrollResult = z.infer<typeof ScrollResultSchema>;
+export type ScreenshotResult = z.infer<typeof ScreenshotResultSchema>;
+export type GetTextResult = z.infer<typeof GetTextResultSchema>;
+export type EvaluateResult = z.infer<typeof EvaluateResultSchema>;
 export type ConsoleLog = z.infer<typeof ConsoleLogSchema>;
 export type ConsoleResult = z.infer<typeof ConsoleResultSchema>;
+export type TabInfo = z.infer<typeof TabInfoSchema>;
+export type TabsResult = z.infer<typeof TabsResultSchema>;
+export type DownloadInfo = z.infer<typeof DownloadInfoSchema>;
+export type DownloadsResult = z.infer<typeof DownloadsResultSchema>;
+export type NetworkRequest = z.infer<typeof NetworkRequestSchema>;
+export type NetworkResult = z.infer<typeof NetworkResultSchema>;
+export type WaitForResult = z.infer<typeof WaitForResultSchema>;
@@ -0,0 +1,93 @@
+import type { Context } from "../context";
+import type {
+  ConsoleResult,
+  ScreenshotResult,
+  SnapshotResult,
+  StateChange,
+  TabsResult,
+} from "../protocol";
+import type { Resource } from "./resource";
+
+// Number of the most recent console entries in the console resource
+const RECENT_LOGS = 100;
+
+// The console capture keeps at most this many entries per tab
+const MAX_LOGS = 1000;
+
+export const snapshotResource: Resource = {
+  schema: {
+    uri: "browser://snapshot",
+    name: "Page snapshot",
+    description: "ARIA snapshot of the current tab, with its URL and title",
+    mimeType: "text/plain",
+  },
+  read: async (context: Context, uri: string) => {
+    // Reading the resource must not move the baseline of the agent's next snapshot({ diff: true })
+    const result = await context.sendRpcRequest<SnapshotResult>("snapshot", { screenshot: false, remember: false });
+    return [{
+      uri,
+      mimeType: "text/plain",
+      text: `URL: ${result.url}\nTitle: ${result.title}\n\n${result.aria}`,
+    }];
+  },
+};
+
+export const screenshotResource: Resource = {
+  schema: {
+    uri: "browser://screenshot",
+    name: "Page screenshot",
+    description: "PNG screenshot of the current tab's viewport",
+    mimeType: "image/png",
+  },
+  read: async (context: Context, uri: string) => {
+    const result = await context.sendRpcRequest<ScreenshotResult>("screenshot", { format: "png" });
+    return [{
+      uri,
+      mimeType: "image/png",
+      blob: result.screenshot.replace(/^data:[^;,]+;base64,/, ""),
+    }];
+  },
+};
+
+export const consoleResource: Resource = {
+  schema: {
+    uri: "browser://console",
+    name: "Console logs",
+    description: `The ${RECENT_LOGS} most recent console messages, errors and browser logs of the current tab, oldest first`,
+    mimeType: "application/json",
+  },
+  read: async (context: Context, uri: string) => {
+    const result = await context.sendRpcRequest<ConsoleResult>("console", { limit: MAX_LOGS });
+    return [{
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(result.logs.slice(-RECENT_LOGS), null, 2),
+    }];
+  },
+};
+
+export const tabsResource: Resource = {
+  schema: {
+    uri: "browser://tabs",
+    name: "Controlled tabs",
+    description: "The tabs under control, with the one other tools act on marked as the target",
+    mimeType: "application/json",
+  },
+  read: async (context: Context, uri: string) => {
+    const result = await context.sendRpcRequest<TabsResult>("tabs", { action: "list" });
+    return [{
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(result, null, 2),
+    }];
+  },
+};
+
+export const resources: Resource[] = [snapshotResource, screenshotResource, consoleResource, tabsResource];
+
+// Resources affected by each kind of change the extension reports
+export const changedResources: Record<StateChange, string[]> = {
+  page: [snapshotResource.schema.uri, screenshotResource.schema.uri],
+  console: [consoleResource.schema.uri],
+  tabs: [tabsResource.schema.uri],
+};
@@ -0,0 +1,147 @@
+import { readFile, realpath, stat } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import type { UploadFile } from "../protocol.js";
+
+// MIME types of common upload formats, by extension
+const MIME_TYPES: Record<string, string> = {
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".gif": "image/gif",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".tsv": "text/tab-separated-values",
+  ".txt": "text/plain",
+  ".webp": "image/webp",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+/**
+ * Read local files to send to the extension for an upload
+ *
+ * Only files inside the upload directory can be read, so a page cannot talk
+ * an agent into uploading keys or credentials from elsewhere on the machine.
+ * Paths are resolved against the upload directory; a leading `~` is the home
+ * directory. Symlinks are followed before the check.
+ *
+ * @param paths - Paths of the files to upload
+ * @param uploadDir - Directory the files must be in, or undefined if uploads are disabled
+ * @param maxBytes - Largest total size allowed
+ * @returns The files with their contents base64-encoded
+ * @throws If uploads are disabled, a file is outside the upload directory or cannot be read, or the files are too large together
+ */
+export async function readUploadFiles(paths: string[], uploadDir: string | undefined, maxBytes: number): Promise<UploadFile[]> {
+  if (!uploadDir) {
+    throw new Error("Uploads are disabled. Set UPLOAD_DIR to the directory holding the files to upload.");
+  }
+  const root = await realpath(expandHome(uploadDir)).catch(() => {
+    throw new Error(`UPLOAD_DIR does not exist: ${uploadDir}`);
+  });
+
+  const resolved = await Promise.all(paths.map(async (filePath) => {
+    const realFilePath = await realpath(path.resolve(root, expandHome(filePath))).catch(() => null);
+    if (!realFilePath) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    const relative = path.relative(root, realFilePath);
+    if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`${filePath} is outside UPLOAD_DIR (${root}); only files in it can be uploaded`);
+    }
+    return realFilePath;
+  }));
+
+  const stats = await Promise.all(resolved.map(async (filePath) => {
+    const info = await stat(filePath).catch(() => null);
+    if (!info?.isFile()) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    return info;
+  }));
+  const total = stats.reduce((sum, info) => sum + info.size, 0);
+  if (total > maxBytes) {
+    throw new Error(`Files are too large to upload (${formatSize(total)}; the limit is ${formatSize(maxBytes)}, see MAX_UPLOAD_MB)`);
+  }
+
+  return Promise.all(resolved.map(async (filePath, index) => ({
+    name: path.basename(filePath),
+    mimeType: MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream",
+    data: (await readFile(filePath)).toString("base64"),
+    lastModified: stats[index].mtimeMs,
+  })));
+}
+
+/**
+ * Replace a leading `~` with the home directory
+ */
+function expandHome(filePath: string): string {
+  return filePath.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+// Image types returned to the agent as images
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// Non-text/* MIME types whose content is text
+const TEXT_TYPES = ["application/json", "application/xml", "application/javascript", "application/x-yaml", "application/csv"];
+
+export type DownloadContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "skipped"; reason: string };
+
+/**
+ * Decode the content of a downloaded file, as sent by the extension, so an agent can check what it contains
+ *
+ * Text files are returned as text and common image formats as images;
+ * other binary files are skipped.
+ *
+ * @param content - Base64 content of the file
+ * @param filePath - Path of the download, as reported by the browser
+ * @param mimeType - MIME type reported by the browser
+ * @returns The content, or why it was skipped
+ */
+export function decodeDownloadContent(content: string, filePath: string, mimeType: string): DownloadContent {
+  const data = Buffer.from(content, "base64");
+  const type = (mimeType || MIME_TYPES[path.extname(filePath).toLowerCase()] || "").toLowerCase();
+
+  if (IMAGE_TYPES.includes(type)) {
+    return { type: "image", data: data.toString("base64"), mimeType: type };
+  }
+  if (isTextType(type) || !data.includes(0)) {
+    return { type: "text", text: data.toString("utf8") };
+  }
+  return { type: "skipped", reason: `${type || "binary"} content cannot be shown as text` };
+}
+
+/**
+ * Check whether a MIME type is a text format
+ */
+function isTextType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || TEXT_TYPES.includes(mimeType) || /\+(json|xml)$/.test(mimeType);
+}
+
+/**
+ * Format a byte count for messages (e.g. "1.5 MB")
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}